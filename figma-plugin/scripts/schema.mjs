@@ -0,0 +1,31 @@
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { mkdir, writeFile } from 'fs/promises';
+import { createGenerator } from 'ts-json-schema-generator';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const root = join(here, '..');
+const schemaDir = join(root, 'schema');
+
+async function run() {
+  const generator = createGenerator({
+    path: join(root, 'src/types.ts'),
+    tsconfig: join(root, '..', 'tsconfig.json'),
+    type: 'ComponentSpec',
+    skipTypeCheck: true,
+    additionalProperties: false,
+  });
+  const schema = generator.createSchema('ComponentSpec');
+  schema.title = 'Component Forge ComponentSpec';
+  // The header comment of types.ts is picked up as the description of the
+  // first declaration in the file.
+  delete schema.definitions.TemplateId.description;
+
+  await mkdir(schemaDir, { recursive: true });
+  await writeFile(join(schemaDir, 'component-spec.schema.json'), `${JSON.stringify(schema, null, 2)}\n`);
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,31 +1,120 @@
 import uiHtml from './ui.html';
 import {
+  AbsolutePositionSpec,
+  AutoLayoutSpec,
   ComponentSpec,
+  CornerRadiusSpec,
+  DesignTokensRef,
+  EffectSpec,
   ElementSpec,
+  FigmaStyleMapping,
+  ElementStyleSpec,
+  FillSpec,
   GeneratedComponentResult,
+  GradientStopSpec,
+  LayoutOverrideSpec,
   PluginToUIMessage,
   PropBinding,
   PropDefinitions,
+  SizeSpec,
+  SizingMode,
+  SolidFillSpec,
+  SpecLibraryEntry,
   StateSpec,
+  StrokeSpec,
+  StyleBindingReport,
+  TextStyleSpec,
+  TextStyleValue,
   UIToPluginMessage,
   VariantCombination,
   VariantGroupSpec,
 } from './types';
 import {
-  generateVariantCombinations,
+  getSpecCombinations,
   normalizeVariantValue,
   validateSpec,
   variantMatchesSelector,
   flattenElements,
+  findElementById,
+  resolveStatesForCombination,
+  resolveTextOverride,
+  createSpecId,
 } from './utils/spec';
-
-const STORAGE_KEY = 'component-forge/spec';
+import {
+  CapturedVariant,
+  buildCapturedStates,
+  findMissingCombinations,
+  reserveIdentifier,
+  toHexColor,
+  toIdentifier,
+  toPropKey,
+} from './utils/capture';
+import {
+  CounterAlignment,
+  getCounterAlignment,
+  isWrapping,
+  mergeAutoLayoutOverride,
+  resolveAbsolutePosition,
+} from './utils/layout';
+import { createDuplicateName, parseLibraryIndex, removeLibraryEntry, upsertLibraryEntry } from './utils/library';
+import {
+  angleFromGradientTransform,
+  describeFill,
+  getGradientAngle,
+  GRADIENT_TYPES,
+  gradientTransformFromAngle,
+  isGradientFill,
+} from './utils/paints';
+import { CURRENT_SPEC_VERSION, parseSpec } from './utils/schema';
+import { getSizingMode, resolveChildSizing, resolveTextAutoResize } from './utils/sizing';
+import { isTokenRef, resolveColor, resolveTextStyle } from './utils/tokens';
+import {
+  StyleCatalog,
+  createEmptyCatalog,
+  createStyleBindingReport,
+  matchColor,
+  matchTextStyle,
+  recordStyleBinding,
+} from './utils/styleBindings';
+
+/**
+ * Per-user keys used before specs were stored in the document. Their specs are
+ * listed in the library and imported into a document on request.
+ */
+const LEGACY_SPEC_KEY = 'component-forge/spec';
+const LEGACY_LIBRARY_KEY = 'component-forge/library';
+const LEGACY_ACTIVE_SPEC_KEY = 'component-forge/active-spec';
+const LEGACY_SPEC_KEY_PREFIX = 'component-forge/specs/';
+/** Unsaved edits of the spec open in the UI, kept per user in clientStorage. */
+const DRAFT_KEY = 'component-forge/draft';
+/** Shared plugin data lets teammates (and other plugins) read the specs. */
+const SHARED_NAMESPACE = 'component_forge';
+const SHARED_SPEC_KEY = 'spec';
+const SHARED_INDEX_KEY = 'spec-index';
+/** Prefix for specs stored on the document root until they are generated. */
+const SHARED_PENDING_SPEC_PREFIX = 'spec:';
+const SPEC_ID_KEY = 'component-forge/spec-id';
+const ELEMENT_ID_KEY = 'component-forge/element-id';
+
+let selectedSpecId: string | undefined;
+/** Specs still saved in clientStorage by older versions, read on start. */
+let legacyEntries: SpecLibraryEntry[] = [];
+/**
+ * clientStorage is asynchronous, so messages handled back to back could
+ * interleave their reads and writes. Every access is chained on this promise.
+ */
+let storageQueue: Promise<unknown> = Promise.resolve();
 
 figma.showUI(uiHtml, { width: 1180, height: 760, themeColors: true });
 
-loadSpecFromStorage().then((spec) => {
-  const message: PluginToUIMessage = { type: 'spec-loaded', spec };
-  figma.ui.postMessage(message);
+figma.on('selectionchange', () => {
+  const specId = findSelectedSpecId();
+  if (!specId || specId === selectedSpecId) {
+    selectedSpecId = specId;
+    return;
+  }
+  selectedSpecId = specId;
+  figma.ui.postMessage({ ...loadSpecFromStorage(specId), source: 'selection' });
 });
 
 figma.on('themechange', ({ theme }) => {
@@ -35,14 +124,52 @@ figma.on('themechange', ({ theme }) => {
 
 figma.ui.onmessage = async (msg: UIToPluginMessage) => {
   switch (msg.type) {
-    case 'ui-ready': {
-      const spec = await loadSpecFromStorage();
-      figma.ui.postMessage({ type: 'spec-loaded', spec });
+    case 'ui-ready':
+    case 'request-load': {
+      legacyEntries = await withStorage(readLegacyEntries);
+      figma.ui.postMessage(await loadInitialSpec());
+      postLibrary();
       break;
     }
-    case 'request-load': {
-      const spec = await loadSpecFromStorage();
-      figma.ui.postMessage({ type: 'spec-loaded', spec });
+    case 'request-list': {
+      postLibrary();
+      break;
+    }
+    case 'request-open': {
+      figma.ui.postMessage(loadSpecFromStorage(msg.id));
+      break;
+    }
+    case 'request-rename': {
+      renameStoredSpec(msg.id, msg.name);
+      postLibrary();
+      break;
+    }
+    case 'request-duplicate': {
+      duplicateStoredSpec(msg.id);
+      postLibrary();
+      break;
+    }
+    case 'request-delete': {
+      deleteStoredSpec(msg.id);
+      postLibrary();
+      break;
+    }
+    case 'request-import-legacy': {
+      try {
+        const spec = await withStorage(() => importLegacySpec(msg.id));
+        if (spec) figma.ui.postMessage(loadSpecFromStorage(spec.id!));
+      } catch (error: any) {
+        console.error('Failed to import a saved specification', error);
+        figma.ui.postMessage({
+          type: 'save-error',
+          error: error?.message ?? 'Unexpected error while importing the specification.',
+        });
+      }
+      postLibrary();
+      break;
+    }
+    case 'update-draft': {
+      await withStorage(() => figma.clientStorage.setAsync(DRAFT_KEY, msg.spec));
       break;
     }
     case 'request-save': {
@@ -55,8 +182,11 @@ figma.ui.onmessage = async (msg: UIToPluginMessage) => {
         });
         return;
       }
-      await saveSpecToStorage(msg.spec);
-      figma.ui.postMessage({ type: 'save-success', spec: msg.spec });
+      const spec: ComponentSpec = { ...msg.spec, id: msg.spec.id ?? createSpecId() };
+      saveSpecToStorage(spec);
+      await withStorage(() => figma.clientStorage.deleteAsync(DRAFT_KEY));
+      figma.ui.postMessage({ type: 'save-success', spec });
+      postLibrary();
       break;
     }
     case 'request-create': {
@@ -80,13 +210,19 @@ figma.ui.onmessage = async (msg: UIToPluginMessage) => {
           });
           return;
         }
-        const result = await createComponentFromSpec(msg.spec);
+        const spec: ComponentSpec = { ...msg.spec, id: msg.spec.id ?? createSpecId() };
+        const result = await createComponentFromSpec(spec);
         figma.ui.postMessage({
           type: 'create-success',
           componentId: result.mainComponent.id,
           setId: result.componentSet?.id,
+          specId: spec.id!,
+          updated: result.updated,
+          styleReport: result.styleReport,
         });
-        await saveSpecToStorage(msg.spec);
+        saveSpecToStorage(spec);
+        await withStorage(() => figma.clientStorage.deleteAsync(DRAFT_KEY));
+        postLibrary();
       } catch (error: any) {
         console.error('Failed to create component set', error);
         figma.ui.postMessage({
@@ -96,6 +232,19 @@ figma.ui.onmessage = async (msg: UIToPluginMessage) => {
       }
       break;
     }
+    case 'request-capture': {
+      try {
+        const spec = captureSpecFromSelection();
+        figma.ui.postMessage({ type: 'capture-success', spec });
+      } catch (error: any) {
+        console.error('Failed to capture component set', error);
+        figma.ui.postMessage({
+          type: 'capture-error',
+          error: error?.message ?? 'Unexpected error while capturing the selection.',
+        });
+      }
+      break;
+    }
     case 'notify-theme': {
       figma.ui.postMessage({ type: 'theme-change', theme: msg.theme });
       break;
@@ -105,20 +254,206 @@ figma.ui.onmessage = async (msg: UIToPluginMessage) => {
   }
 };
 
-async function saveSpecToStorage(spec: ComponentSpec): Promise<void> {
-  await figma.clientStorage.setAsync(STORAGE_KEY, spec);
+/**
+ * Runs a clientStorage task after the ones queued before it, so a
+ * read-modify-write never overlaps another write.
+ */
+function withStorage<T>(task: () => Promise<T>): Promise<T> {
+  const result = storageQueue.then(task);
+  storageQueue = result.catch(() => undefined);
+  return result;
+}
+
+function readLibrary(): SpecLibraryEntry[] {
+  return parseLibraryIndex(figma.root.getSharedPluginData(SHARED_NAMESPACE, SHARED_INDEX_KEY));
 }
 
-async function loadSpecFromStorage(): Promise<ComponentSpec | null> {
-  const stored = await figma.clientStorage.getAsync(STORAGE_KEY);
+function writeLibrary(entries: SpecLibraryEntry[]): void {
+  figma.root.setSharedPluginData(SHARED_NAMESPACE, SHARED_INDEX_KEY, JSON.stringify(entries));
+}
+
+function postLibrary(): void {
+  const message: PluginToUIMessage = { type: 'library-list', entries: readLibrary(), legacyEntries };
+  figma.ui.postMessage(message);
+}
+
+/**
+ * Lists the specs saved per user in clientStorage by older versions: the
+ * single slot, under the id `LEGACY_SPEC_KEY`, and the later spec library.
+ */
+async function readLegacyEntries(): Promise<SpecLibraryEntry[]> {
+  const entries: SpecLibraryEntry[] = [];
+  const single = await figma.clientStorage.getAsync(LEGACY_SPEC_KEY);
+  if (single) {
+    entries.push({ id: LEGACY_SPEC_KEY, name: single.name ?? 'Untitled', template: single.template, updatedAt: 0 });
+  }
+  const library: SpecLibraryEntry[] = (await figma.clientStorage.getAsync(LEGACY_LIBRARY_KEY)) ?? [];
+  for (const entry of library) {
+    if (await figma.clientStorage.getAsync(LEGACY_SPEC_KEY_PREFIX + entry.id)) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Copies a spec saved per user into the current document and removes it from
+ * clientStorage once the document holds it. Invalid specs stay where they are.
+ */
+async function importLegacySpec(id: string): Promise<ComponentSpec | null> {
+  const key = id === LEGACY_SPEC_KEY ? LEGACY_SPEC_KEY : LEGACY_SPEC_KEY_PREFIX + id;
+  const stored = await figma.clientStorage.getAsync(key);
   if (!stored) return null;
-  return stored as ComponentSpec;
+  const { spec } = parseSpec(stored);
+  if (!spec) {
+    throw new Error('The saved specification is invalid and was kept on this device.');
+  }
+  const imported: ComponentSpec = { ...spec, id: id === LEGACY_SPEC_KEY ? spec.id ?? createSpecId() : id };
+  saveSpecToStorage(imported);
+  if (!readStoredSpec(imported.id!)) {
+    throw new Error('The specification could not be stored in this file and was kept on this device.');
+  }
+  await figma.clientStorage.deleteAsync(key);
+  legacyEntries = legacyEntries.filter((entry) => entry.id !== id);
+  if (id !== LEGACY_SPEC_KEY) {
+    const library: SpecLibraryEntry[] = (await figma.clientStorage.getAsync(LEGACY_LIBRARY_KEY)) ?? [];
+    await figma.clientStorage.setAsync(LEGACY_LIBRARY_KEY, removeLibraryEntry(library, id));
+  }
+  if (!legacyEntries.length) {
+    await figma.clientStorage.deleteAsync(LEGACY_LIBRARY_KEY);
+    await figma.clientStorage.deleteAsync(LEGACY_ACTIVE_SPEC_KEY);
+  }
+  return imported;
+}
+
+/**
+ * Finds the generated node holding a spec: the node recorded in the index
+ * when it still exists, otherwise a search of the current page.
+ */
+function findSpecNode(specId: string): ComponentSetNode | ComponentNode | undefined {
+  const entry = readLibrary().find((item) => item.id === specId);
+  const indexed = entry?.nodeId ? figma.getNodeById(entry.nodeId) : null;
+  if (indexed && !indexed.removed && indexed.getPluginData(SPEC_ID_KEY) === specId) {
+    return indexed;
+  }
+  return findGeneratedNode(specId);
+}
+
+/**
+ * Saves the spec in the document with shared plugin data: on its generated
+ * component set when there is one, otherwise on the document root until it is
+ * generated. The document index is updated either way.
+ */
+function saveSpecToStorage(spec: ComponentSpec): void {
+  const node = findSpecNode(spec.id!);
+  const pendingKey = SHARED_PENDING_SPEC_PREFIX + spec.id;
+  if (node) {
+    node.setSharedPluginData(SHARED_NAMESPACE, SHARED_SPEC_KEY, JSON.stringify(spec));
+    figma.root.setSharedPluginData(SHARED_NAMESPACE, pendingKey, '');
+  } else {
+    figma.root.setSharedPluginData(SHARED_NAMESPACE, pendingKey, JSON.stringify(spec));
+  }
+  writeLibrary(upsertLibraryEntry(readLibrary(), spec, Date.now(), node?.id));
+}
+
+function readStoredSpec(specId: string): ComponentSpec | null {
+  const node = findSpecNode(specId);
+  const raw =
+    node?.getSharedPluginData(SHARED_NAMESPACE, SHARED_SPEC_KEY) ||
+    figma.root.getSharedPluginData(SHARED_NAMESPACE, SHARED_PENDING_SPEC_PREFIX + specId);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.warn(`Stored specification ${specId} is not valid JSON`, error);
+    return null;
+  }
+}
+
+/**
+ * Loads a spec from the document, upgrading older versions. A spec that fails
+ * the structural checks is dropped and its issues are returned so the UI can
+ * explain why the default template was opened instead.
+ */
+function loadSpecFromStorage(specId: string): PluginToUIMessage & { type: 'spec-loaded' } {
+  return toSpecLoadedMessage(readStoredSpec(specId));
+}
+
+function toSpecLoadedMessage(stored: unknown): PluginToUIMessage & { type: 'spec-loaded' } {
+  if (!stored) return { type: 'spec-loaded', spec: null };
+  const { spec, result } = parseSpec(stored);
+  if (!spec) {
+    console.warn('Stored specification is invalid', result.errors);
+  }
+  return { type: 'spec-loaded', spec, issues: result.errors.length || result.warnings.length ? result : undefined };
+}
+
+/**
+ * Picks the spec to open when the plugin starts: the spec of the selected
+ * generated set, otherwise the unsaved draft from the last session.
+ */
+async function loadInitialSpec(): Promise<PluginToUIMessage & { type: 'spec-loaded' }> {
+  selectedSpecId = findSelectedSpecId();
+  if (selectedSpecId) {
+    const message = loadSpecFromStorage(selectedSpecId);
+    if (message.spec) return { ...message, source: 'selection' };
+  }
+  const draft = await withStorage(() => figma.clientStorage.getAsync(DRAFT_KEY));
+  return draft ? { ...toSpecLoadedMessage(draft), source: 'draft' } : { type: 'spec-loaded', spec: null };
+}
+
+/**
+ * Returns the spec id of the generated set (or one of its variants or layers)
+ * that is selected, if any.
+ */
+function findSelectedSpecId(): string | undefined {
+  const selection: readonly SceneNode[] = figma.currentPage.selection;
+  if (selection.length !== 1) return undefined;
+  let node: SceneNode | null = selection[0];
+  while (node && node.type !== 'PAGE') {
+    const specId = node.getPluginData(SPEC_ID_KEY);
+    if (specId) return specId;
+    node = node.parent;
+  }
+  return undefined;
+}
+
+function renameStoredSpec(specId: string, name: string): void {
+  const spec = readStoredSpec(specId);
+  if (!spec || !name.trim()) return;
+  saveSpecToStorage({ ...spec, name: name.trim() });
+}
+
+/**
+ * Copies a spec under a new id. The copy is not linked to the component set
+ * generated from the original, so creating it produces a new set.
+ */
+function duplicateStoredSpec(specId: string): void {
+  const spec = readStoredSpec(specId);
+  if (!spec) return;
+  const copy: ComponentSpec = { ...spec, id: createSpecId(), name: createDuplicateName(spec.name, readLibrary()) };
+  figma.root.setSharedPluginData(SHARED_NAMESPACE, SHARED_PENDING_SPEC_PREFIX + copy.id, JSON.stringify(copy));
+  writeLibrary(upsertLibraryEntry(readLibrary(), copy, Date.now()));
+}
+
+/**
+ * Removes a spec from the document. A generated component set is kept but no
+ * longer carries the spec.
+ */
+function deleteStoredSpec(specId: string): void {
+  findSpecNode(specId)?.setSharedPluginData(SHARED_NAMESPACE, SHARED_SPEC_KEY, '');
+  figma.root.setSharedPluginData(SHARED_NAMESPACE, SHARED_PENDING_SPEC_PREFIX + specId, '');
+  writeLibrary(removeLibraryEntry(readLibrary(), specId));
 }
 
 async function createComponentFromSpec(spec: ComponentSpec): Promise<GeneratedComponentResult> {
-  const combinations = generateVariantCombinations(spec.variantGroups);
+  const specId = spec.id!;
+  const combinations = getSpecCombinations(spec);
   const assetsFrame = ensureAssetsFrame();
+  const existing = findGeneratedNode(specId);
+  const styles = await loadStyleBindingContext(spec);
   const textFonts = collectFonts(spec);
+  if (existing) {
+    textFonts.push(...collectExistingFonts(existing));
+  }
   await Promise.all(
     textFonts.map((font) =>
       figma.loadFontAsync(font).catch((error) => {
@@ -127,23 +462,41 @@ async function createComponentFromSpec(spec: ComponentSpec): Promise<GeneratedCo
     ),
   );
 
+  const existingVariants: ComponentNode[] = existing
+    ? existing.type === 'COMPONENT_SET'
+      ? existing.children.filter((child: SceneNode) => child.type === 'COMPONENT')
+      : [existing]
+    : [];
+  const reused = new Set<ComponentNode>();
   const components: ComponentNode[] = [];
   let mainComponent: ComponentNode | null = null;
   const propertyDefinitions = createPropertyDefinitions(spec.propDefinitions);
 
   for (const combination of combinations) {
-    const component = figma.createComponent();
+    // A lone component has no variant properties; it becomes the first
+    // variant so instances of it stay linked once the spec has several.
+    const match = existingVariants.find(
+      (candidate) =>
+        !reused.has(candidate) && (existing?.type === 'COMPONENT' || variantPropertiesMatch(candidate, combination)),
+    );
+    const component: ComponentNode = match ?? figma.createComponent();
+    if (match) {
+      reused.add(match);
+    } else {
+      component.x = 0;
+      component.y = 0;
+    }
     component.name = buildVariantName(spec.name, combination);
-    applyBaseComponentLayout(component, spec.structure);
+    component.setPluginData(SPEC_ID_KEY, specId);
+    applyBaseComponentLayout(component, spec.structure, !match);
 
-    const context = createBuildContext(assetsFrame);
+    const context = createBuildContext(assetsFrame, styles, combination, spec.styleTokens);
     context.nodeByElementId.set(spec.structure.id, component);
     if (spec.structure.role) {
       context.nodesByRole.set(spec.structure.role, [component]);
     }
-    applyElementStyling(component, spec.structure);
-    const rootChildren = buildChildren(spec.structure, component, context);
-    rootChildren.forEach((child) => component.appendChild(child));
+    applyElementStyling(component, spec.structure, context);
+    reconcileChildren(spec.structure, component, context);
 
     if (spec.baseStyle) {
       applyStyle(component, spec.structure, spec.baseStyle, context);
@@ -153,6 +506,8 @@ async function createComponentFromSpec(spec: ComponentSpec): Promise<GeneratedCo
     activeStates.forEach((state) => {
       applyStyle(component, spec.structure, state.style, context);
     });
+    applyTextOverrides(spec.structure, activeStates, context);
+    positionAbsoluteElements(spec.structure, context);
 
     const propValues = resolvePropValues(spec, activeStates);
 
@@ -161,9 +516,6 @@ async function createComponentFromSpec(spec: ComponentSpec): Promise<GeneratedCo
     applyPropValues(component, propValues);
     applyVariantSelection(component, combination);
 
-    component.x = 0;
-    component.y = 0;
-
     components.push(component);
     if (!mainComponent) {
       mainComponent = component;
@@ -171,38 +523,220 @@ async function createComponentFromSpec(spec: ComponentSpec): Promise<GeneratedCo
   }
 
   let componentSet: ComponentSetNode | undefined;
-  if (components.length > 1) {
-    componentSet = combineAsVariants(components, spec.variantGroups);
+  if (existing?.type === 'COMPONENT_SET') {
+    componentSet = existing;
+    components
+      .filter((component) => component.parent !== existing)
+      .forEach((component) => existing.appendChild(component));
+    componentSet.name = spec.name;
+    applyVariantGroups(componentSet, spec.variantGroups);
+  } else if (components.length > 1) {
+    componentSet = combineAsVariants(components, spec.variantGroups, existing?.parent ?? figma.currentPage);
+  }
+  if (existing && componentSet) {
+    placeAddedVariants(
+      components.filter((component) => !reused.has(component)),
+      components.filter((component) => reused.has(component)),
+    );
   }
+  // Stale variants are removed last so an existing set is never emptied (and
+  // thereby deleted by Figma) before the new variants have been added.
+  existingVariants.filter((component) => !reused.has(component)).forEach((component) => component.remove());
 
-  const frame = wrapInFrame(componentSet ?? components[0], spec.name);
-  figma.currentPage.appendChild(frame);
-  frame.x = figma.viewport.center.x - frame.width / 2;
-  frame.y = figma.viewport.center.y - frame.height / 2;
-  figma.currentPage.selection = [frame];
-  figma.viewport.scrollAndZoomIntoView([frame]);
+  const root = componentSet ?? components[0];
+  root.setPluginData(SPEC_ID_KEY, specId);
+  if (existing) {
+    figma.currentPage.selection = [root];
+    figma.viewport.scrollAndZoomIntoView([root]);
+  } else {
+    const frame = wrapInFrame(root, spec.name);
+    figma.currentPage.appendChild(frame);
+    frame.x = figma.viewport.center.x - frame.width / 2;
+    frame.y = figma.viewport.center.y - frame.height / 2;
+    figma.currentPage.selection = [frame];
+    figma.viewport.scrollAndZoomIntoView([frame]);
+  }
 
   return {
     mainComponent: mainComponent!,
     componentSet,
     allComponents: components,
+    updated: !!existing,
+    styleReport: styles.report,
   };
 }
 
-function createBuildContext(assetsFrame: FrameNode): BuildContext {
+/**
+ * Looks up the component set (or single component) previously generated for
+ * the spec on the current page.
+ */
+function findGeneratedNode(specId: string): ComponentSetNode | ComponentNode | undefined {
+  const node = figma.currentPage.findOne(
+    (candidate: SceneNode) =>
+      (candidate.type === 'COMPONENT_SET' ||
+        (candidate.type === 'COMPONENT' && candidate.parent?.type !== 'COMPONENT_SET')) &&
+      candidate.getPluginData(SPEC_ID_KEY) === specId,
+  );
+  return node ?? undefined;
+}
+
+/**
+ * Lays out variants added to an existing set in a row below the variants it
+ * already had, instead of on top of them at the set's origin.
+ */
+function placeAddedVariants(added: ComponentNode[], kept: ComponentNode[]): void {
+  if (!added.length || !kept.length) return;
+  const spacing = 24;
+  let x = Math.min(...kept.map((component) => component.x));
+  const y = Math.max(...kept.map((component) => component.y + component.height)) + spacing;
+  added.forEach((component) => {
+    component.x = x;
+    component.y = y;
+    x += component.width + spacing;
+  });
+}
+
+function variantPropertiesMatch(component: ComponentNode, combination: VariantCombination): boolean {
+  const properties: Record<string, string> = component.variantProperties ?? {};
+  const entries = Object.entries(combination);
+  if (entries.length !== Object.keys(properties).length) return false;
+  return entries.every(([group, value]) => properties[group] === normalizeVariantValue(value));
+}
+
+function createBuildContext(
+  assetsFrame: FrameNode,
+  styles: StyleBindingContext,
+  combination: VariantCombination,
+  tokens?: DesignTokensRef,
+): BuildContext {
   return {
     nodeByElementId: new Map(),
     nodesByRole: new Map(),
+    combination,
+    hiddenByVariant: new Set(),
     assetsFrame,
     iconMaster: ensureIconMaster(assetsFrame),
+    tokens,
+    styles,
   };
 }
 
 interface BuildContext {
   nodeByElementId: Map<string, SceneNode>;
   nodesByRole: Map<string, SceneNode[]>;
+  /** The variant being built. */
+  combination: VariantCombination;
+  /** Nodes whose `visibleWhen` excludes the variant being built. */
+  hiddenByVariant: Set<SceneNode>;
   assetsFrame: FrameNode;
   iconMaster: ComponentNode;
+  tokens?: DesignTokensRef;
+  styles: StyleBindingContext;
+}
+
+/**
+ * State shared by all variants of one generation run for binding spec values
+ * to local variables and styles.
+ */
+interface StyleBindingContext {
+  catalog: StyleCatalog;
+  variables: Map<string, Variable>;
+  mapping?: FigmaStyleMapping;
+  report: StyleBindingReport;
+}
+
+/**
+ * Reads the local colour variables, paint styles and text styles into a
+ * catalog. Editors without variable support (e.g. FigJam) yield an empty one.
+ */
+async function loadStyleBindingContext(spec: ComponentSpec): Promise<StyleBindingContext> {
+  const context: StyleBindingContext = {
+    catalog: createEmptyCatalog(),
+    variables: new Map(),
+    mapping: spec.figmaStyles,
+    report: createStyleBindingReport(),
+  };
+  try {
+    const variables: Variable[] = await figma.variables.getLocalVariablesAsync('COLOR');
+    const byId = new Map<string, Variable>(variables.map((variable) => [variable.id, variable]));
+    const collections = new Map<string, VariableCollection>();
+    for (const variable of variables) {
+      if (!collections.has(variable.variableCollectionId)) {
+        collections.set(
+          variable.variableCollectionId,
+          await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId),
+        );
+      }
+      const collection = collections.get(variable.variableCollectionId);
+      const value = resolveVariableColor(variable, collection?.defaultModeId, byId);
+      context.variables.set(variable.id, variable);
+      context.catalog.variables.push({
+        id: variable.id,
+        name: variable.name,
+        color: value ? toHexColor(value) : undefined,
+        opacity: value?.a,
+      });
+    }
+  } catch (error) {
+    console.warn('Local variables are not available', error);
+  }
+  try {
+    const paintStyles: PaintStyle[] = await figma.getLocalPaintStylesAsync();
+    paintStyles.forEach((style) => {
+      const paint = style.paints.length === 1 ? style.paints[0] : undefined;
+      context.catalog.paintStyles.push({
+        id: style.id,
+        name: style.name,
+        color: paint?.type === 'SOLID' ? toHexColor(paint.color) : undefined,
+        opacity: paint?.type === 'SOLID' ? paint.opacity ?? 1 : undefined,
+      });
+    });
+    const textStyles: TextStyle[] = await figma.getLocalTextStylesAsync();
+    textStyles.forEach((style) => {
+      context.catalog.textStyles.push({
+        id: style.id,
+        name: style.name,
+        style: {
+          fontFamily: style.fontName.family,
+          fontSize: style.fontSize,
+          fontWeight: styleToWeight(style.fontName.style),
+          lineHeight: style.lineHeight.unit === 'PIXELS' ? style.lineHeight.value : undefined,
+        },
+      });
+    });
+    await Promise.all(
+      textStyles.map((style) =>
+        figma.loadFontAsync(style.fontName).catch((error: unknown) => {
+          console.warn(`Failed to load font ${style.fontName.family} / ${style.fontName.style}`, error);
+        }),
+      ),
+    );
+  } catch (error) {
+    console.warn('Local styles are not available', error);
+  }
+  return context;
+}
+
+/**
+ * Returns the colour of a variable in the given mode, following aliases to
+ * other local variables.
+ */
+function resolveVariableColor(
+  variable: Variable,
+  modeId: string | undefined,
+  variables: Map<string, Variable>,
+  depth = 0,
+): { r: number; g: number; b: number; a: number } | undefined {
+  if (!modeId || depth > 8) return undefined;
+  const value = variable.valuesByMode[modeId] ?? Object.values(variable.valuesByMode)[0];
+  if (value && typeof value === 'object' && value.type === 'VARIABLE_ALIAS') {
+    const target = variables.get(value.id);
+    return target ? resolveVariableColor(target, Object.keys(target.valuesByMode)[0], variables, depth + 1) : undefined;
+  }
+  if (value && typeof value === 'object' && 'r' in value) {
+    return { r: value.r, g: value.g, b: value.b, a: value.a ?? 1 };
+  }
+  return undefined;
 }
 
 function applyVariantSelection(component: ComponentNode, combination: VariantCombination) {
@@ -299,11 +833,6 @@ function extractDefaultSwapValues(defs: PropDefinitions): Record<string, string>
   return result;
 }
 
-function resolveStatesForCombination(states: StateSpec[], combination: VariantCombination): StateSpec[] {
-  const matches = states.filter((state) => variantMatchesSelector(combination, state.appliesTo));
-  return matches;
-}
-
 function applyBindings(component: ComponentNode, context: BuildContext, bindings: PropBinding[]) {
   bindings.forEach((binding) => {
     const target = resolveTargetNode(binding, context);
@@ -312,7 +841,10 @@ function applyBindings(component: ComponentNode, context: BuildContext, bindings
       return;
     }
     const references = (target as any).componentPropertyReferences ?? {};
-    if (binding.type === 'BOOLEAN') {
+    if (binding.type === 'BOOLEAN' && context.hiddenByVariant.has(target)) {
+      // A boolean prop would show the node again in variants that exclude it.
+      delete references.visibility;
+    } else if (binding.type === 'BOOLEAN') {
       references.visibility = binding.propName;
     } else if (binding.type === 'TEXT') {
       references.characters = binding.propName;
@@ -372,8 +904,10 @@ function createPropertyDefinitions(defs: PropDefinitions): ComponentPropertyDefi
   return definitions;
 }
 
-function applyBaseComponentLayout(component: ComponentNode, spec: ElementSpec) {
-  component.resizeWithoutConstraints(200, 48);
+function applyBaseComponentLayout(component: ComponentNode, spec: ElementSpec, isNew: boolean) {
+  if (isNew) {
+    component.resizeWithoutConstraints(200, 48);
+  }
   if (spec.layout) {
     applyAutoLayout(component, spec.layout);
   } else {
@@ -381,51 +915,72 @@ function applyBaseComponentLayout(component: ComponentNode, spec: ElementSpec) {
   }
 }
 
-function buildChildren(
-  element: ElementSpec,
-  parent: FrameNode,
-  context: BuildContext,
-): SceneNode[] {
-  if (!element.children) return [];
-  return element.children.map((childSpec) => buildNodeFromSpec(childSpec, context));
+/**
+ * Builds the children of `element` inside `parent`, reusing existing nodes that
+ * were generated for the same element id so node IDs and instance overrides
+ * survive regeneration. Nodes that no longer belong to the spec are removed.
+ */
+function reconcileChildren(element: ElementSpec, parent: FrameNode, context: BuildContext) {
+  const existing: SceneNode[] = [...parent.children];
+  const used = new Set<SceneNode>();
+  (element.children ?? []).forEach((childSpec, index) => {
+    const match = existing.find(
+      (node) =>
+        !used.has(node) &&
+        node.getPluginData(ELEMENT_ID_KEY) === childSpec.id &&
+        node.type === expectedNodeType(childSpec),
+    );
+    if (match) used.add(match);
+    const node = buildNodeFromSpec(childSpec, context, match);
+    parent.insertChild(index, node);
+    applyChildSizing(node, childSpec.size, parent);
+    if (isAutoLayoutFrame(parent) && 'layoutPositioning' in node) {
+      (node as LayoutMixin).layoutPositioning = childSpec.position ? 'ABSOLUTE' : 'AUTO';
+    }
+  });
+  existing.filter((node) => !used.has(node)).forEach((node) => node.remove());
+}
+
+function expectedNodeType(spec: ElementSpec): string {
+  return spec.type === 'ICON' ? 'INSTANCE' : spec.type;
 }
 
-function buildNodeFromSpec(spec: ElementSpec, context: BuildContext): SceneNode {
+function buildNodeFromSpec(spec: ElementSpec, context: BuildContext, existing?: SceneNode): SceneNode {
   let node: SceneNode;
   switch (spec.type) {
     case 'FRAME':
-      node = figma.createFrame();
+      node = existing ?? figma.createFrame();
       applyAutoLayout(node, spec.layout);
       break;
     case 'RECTANGLE':
-      node = figma.createRectangle();
+      node = existing ?? figma.createRectangle();
       break;
     case 'ELLIPSE':
-      node = figma.createEllipse();
+      node = existing ?? figma.createEllipse();
       break;
     case 'TEXT': {
-      const textNode = figma.createText();
+      const textNode = existing ?? figma.createText();
       textNode.characters = spec.text?.default ?? '';
       node = textNode;
       break;
     }
     case 'ICON': {
-      node = createIconInstance(spec, context);
+      node = createIconInstance(spec, context, existing);
       break;
     }
     default:
-      node = figma.createFrame();
+      node = existing ?? figma.createFrame();
       break;
   }
 
   node.name = spec.name;
-  applyElementStyling(node, spec);
-  if (spec.children && 'appendChild' in node) {
-    const parent = node as FrameNode;
-    spec.children.forEach((child) => {
-      const childNode = buildNodeFromSpec(child, context);
-      parent.appendChild(childNode);
-    });
+  node.setPluginData(ELEMENT_ID_KEY, spec.id);
+  if (existing) {
+    node.visible = true;
+  }
+  applyElementStyling(node, spec, context);
+  if ('appendChild' in node && spec.type !== 'ICON') {
+    reconcileChildren(spec, node as FrameNode, context);
   }
 
   context.nodeByElementId.set(spec.id, node);
@@ -438,28 +993,30 @@ function buildNodeFromSpec(spec: ElementSpec, context: BuildContext): SceneNode
   return node;
 }
 
-function applyElementStyling(node: SceneNode, spec: ElementSpec) {
+function applyElementStyling(node: SceneNode, spec: ElementSpec, context: BuildContext) {
   if ('fills' in node && spec.fills) {
-    (node as GeometryMixin).fills = spec.fills.map(convertFill);
+    applyPaints(node, 'fills', spec.fills, context);
   }
   if ('strokes' in node && spec.strokes) {
-    (node as GeometryMixin).strokes = spec.strokes.map(convertStroke);
+    applyPaints(node, 'strokes', spec.strokes, context);
   }
   if ('cornerRadius' in node && typeof spec.cornerRadius !== 'undefined') {
     applyCornerRadius(node as GeometryMixin, spec.cornerRadius);
   }
   if ('effects' in node && spec.effects) {
-    (node as GeometryMixin).effects = spec.effects.map(convertEffect);
+    (node as GeometryMixin).effects = spec.effects.map((effect: EffectSpec) => convertEffect(effect, context.tokens));
   }
   if ('visible' in node && spec.defaultVisible === false) {
     (node as SceneNode).visible = false;
   }
+  if (!variantMatchesSelector(context.combination, spec.visibleWhen)) {
+    node.visible = false;
+    context.hiddenByVariant.add(node);
+  }
   if ('layoutMode' in node && spec.layout) {
     applyAutoLayout(node as FrameNode, spec.layout);
   }
-  if (spec.size) {
-    applySize(node, spec.size);
-  }
+  applySize(node, spec.size);
 }
 
 function applyStyle(
@@ -468,65 +1025,87 @@ function applyStyle(
   style: StateSpec['style'],
   context: BuildContext,
 ) {
-  applyStyleToNode(component, style);
+  applyStyleToNode(component, style, context, structure.size);
   if (style.elements) {
     Object.entries(style.elements).forEach(([target, elementStyle]) => {
       const byId = context.nodeByElementId.get(target);
-      const byRole = context.nodesByRole.get(target)?.[0];
-      const node = byId ?? byRole;
-      if (!node) return;
-      applyElementStyle(node, elementStyle);
+      const nodes = byId ? [byId] : context.nodesByRole.get(target) ?? [];
+      nodes.forEach((node) => {
+        const element = findElementById(structure, node.getPluginData(ELEMENT_ID_KEY));
+        applyElementStyle(node, elementStyle, context, element?.size);
+      });
     });
   }
 }
 
-function applyStyleToNode(node: SceneNode, style: StateSpec['style']) {
+function applyStyleToNode(node: SceneNode, style: StateSpec['style'], context: BuildContext, baseSize?: SizeSpec) {
   if (style.fills && 'fills' in node) {
-    (node as GeometryMixin).fills = style.fills.map(convertFill);
+    applyPaints(node, 'fills', style.fills, context);
   }
   if (style.strokes && 'strokes' in node) {
-    (node as GeometryMixin).strokes = style.strokes.map(convertStroke);
+    applyPaints(node, 'strokes', style.strokes, context);
   }
   if (typeof style.cornerRadius !== 'undefined' && 'cornerRadius' in node) {
     applyCornerRadius(node as GeometryMixin, style.cornerRadius);
   }
   if (style.effects && 'effects' in node) {
-    (node as GeometryMixin).effects = style.effects.map(convertEffect);
+    (node as GeometryMixin).effects = style.effects.map((effect: EffectSpec) => convertEffect(effect, context.tokens));
   }
   if (style.textStyle && node.type === 'TEXT') {
-    applyTextStyle(node as TextNode, style.textStyle);
-  }
-  if (style.layout?.autolayout && 'layoutMode' in node) {
-    applyAutoLayout(node as FrameNode, {
-      direction: (node as FrameNode).layoutMode === 'HORIZONTAL' ? 'HORIZONTAL' : 'VERTICAL',
-      gap: style.layout.autolayout.gap ?? (node as FrameNode).itemSpacing,
-      padding: style.layout.autolayout.padding ?? collectPadding(node as FrameNode),
-      alignment: mapAlign(style.layout.autolayout.align ?? 'start'),
-    });
+    applyTextStyle(node as TextNode, style.textStyle, context);
   }
-  if (style.layout?.size) {
-    applySize(node, style.layout.size);
+  if (style.layout) {
+    applyLayoutOverride(node, style.layout, baseSize);
   }
 }
 
-function applyElementStyle(node: SceneNode, style: any) {
+/**
+ * Applies a layout override from a style on top of the node's current layout.
+ * Size overrides are merged into the element's own size so properties they
+ * leave out, such as the sizing modes and limits, keep their structure values.
+ */
+function applyLayoutOverride(node: SceneNode, layout: LayoutOverrideSpec, baseSize?: SizeSpec) {
+  if (layout.autolayout && 'layoutMode' in node) {
+    const frame = node as FrameNode;
+    const current: AutoLayoutSpec = captureAutoLayout(frame) ?? {
+      direction: 'VERTICAL',
+      gap: frame.itemSpacing,
+      padding: collectPadding(frame),
+      alignment: 'START',
+    };
+    applyAutoLayout(frame, mergeAutoLayoutOverride(current, layout.autolayout));
+  }
+  if (layout.size) {
+    const size = { ...baseSize, ...layout.size };
+    applySize(node, size);
+    const parent = node.parent;
+    if (parent && parent.type !== 'COMPONENT_SET' && 'layoutMode' in parent) {
+      applyChildSizing(node, size, parent as FrameNode);
+    }
+  }
+}
+
+function applyElementStyle(node: SceneNode, style: ElementStyleSpec, context: BuildContext, baseSize?: SizeSpec) {
   if (style.fills && 'fills' in node) {
-    (node as GeometryMixin).fills = style.fills.map(convertFill);
+    applyPaints(node, 'fills', style.fills, context);
   }
   if (style.strokes && 'strokes' in node) {
-    (node as GeometryMixin).strokes = style.strokes.map(convertStroke);
+    applyPaints(node, 'strokes', style.strokes, context);
   }
   if (typeof style.cornerRadius !== 'undefined' && 'cornerRadius' in node) {
     applyCornerRadius(node as GeometryMixin, style.cornerRadius);
   }
   if (style.effects && 'effects' in node) {
-    (node as GeometryMixin).effects = style.effects.map(convertEffect);
+    (node as GeometryMixin).effects = style.effects.map((effect: EffectSpec) => convertEffect(effect, context.tokens));
   }
-  if (typeof style.visible !== 'undefined') {
+  if (typeof style.visible !== 'undefined' && !context.hiddenByVariant.has(node)) {
     node.visible = style.visible;
   }
   if (style.textStyle && node.type === 'TEXT') {
-    applyTextStyle(node as TextNode, style.textStyle);
+    applyTextStyle(node as TextNode, style.textStyle, context);
+  }
+  if (style.layout) {
+    applyLayoutOverride(node, style.layout, baseSize);
   }
 }
 
@@ -534,27 +1113,12 @@ function collectPadding(node: FrameNode): [number, number, number, number] {
   return [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft];
 }
 
-function mapAlign(value: 'start' | 'center' | 'end' | 'space-between'): 'START' | 'CENTER' | 'END' | 'SPACE_BETWEEN' {
-  switch (value) {
-    case 'center':
-      return 'CENTER';
-    case 'end':
-      return 'END';
-    case 'space-between':
-      return 'SPACE_BETWEEN';
-    default:
-      return 'START';
-  }
-}
-
 function applyAutoLayout(node: FrameNode, layout?: ElementSpec['layout']) {
   if (!layout) {
     node.layoutMode = 'NONE';
     return;
   }
   node.layoutMode = layout.direction;
-  node.primaryAxisSizingMode = 'AUTO';
-  node.counterAxisSizingMode = 'AUTO';
   node.itemSpacing = layout.gap ?? node.itemSpacing;
   const padding = Array.isArray(layout.padding)
     ? layout.padding
@@ -563,19 +1127,17 @@ function applyAutoLayout(node: FrameNode, layout?: ElementSpec['layout']) {
   node.paddingRight = padding[1];
   node.paddingBottom = padding[2];
   node.paddingLeft = padding[3];
-  const align = layout.alignment ?? 'START';
-  const primaryAlign = mapFigmaAlign(align);
-  const counterAlign = align === 'SPACE_BETWEEN' ? 'CENTER' : align;
-  if (node.layoutMode === 'HORIZONTAL') {
-    node.primaryAxisAlignItems = primaryAlign;
-    node.counterAxisAlignItems = mapFigmaAlign(counterAlign);
-  } else if (node.layoutMode === 'VERTICAL') {
-    node.primaryAxisAlignItems = primaryAlign;
-    node.counterAxisAlignItems = mapFigmaAlign(counterAlign);
+  node.primaryAxisAlignItems = mapFigmaAlign(layout.alignment ?? 'START');
+  node.counterAxisAlignItems = mapFigmaAlign(getCounterAlignment(layout));
+  node.layoutWrap = isWrapping(layout) ? 'WRAP' : 'NO_WRAP';
+  if (isWrapping(layout)) {
+    node.counterAxisSpacing = layout.rowGap ?? layout.gap;
   }
 }
 
-function mapFigmaAlign(value: 'START' | 'CENTER' | 'END' | 'SPACE_BETWEEN'): 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN' {
+function mapFigmaAlign(
+  value: AutoLayoutSpec['alignment'] | CounterAlignment,
+): 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN' | 'BASELINE' {
   switch (value) {
     case 'CENTER':
       return 'CENTER';
@@ -583,17 +1145,94 @@ function mapFigmaAlign(value: 'START' | 'CENTER' | 'END' | 'SPACE_BETWEEN'): 'MI
       return 'MAX';
     case 'SPACE_BETWEEN':
       return 'SPACE_BETWEEN';
+    case 'BASELINE':
+      return 'BASELINE';
     default:
       return 'MIN';
   }
 }
 
-function applySize(node: SceneNode, size: ElementSpec['size']) {
+/**
+ * Resizes a node and applies the sizing mode of each axis. Hugging axes are
+ * switched to auto sizing after the resize so Figma recomputes them from the
+ * content; text gets the matching auto-resize mode instead.
+ */
+function applySize(node: SceneNode, size: SizeSpec | undefined) {
   const width = size?.width ?? size?.minWidth ?? node.width;
   const height = size?.height ?? size?.minHeight ?? node.height;
   if ('resizeWithoutConstraints' in node) {
     (node as LayoutMixin).resizeWithoutConstraints(width, height);
   }
+  if (node.type === 'TEXT') {
+    (node as TextNode).textAutoResize = resolveTextAutoResize(size);
+  } else if (isAutoLayoutFrame(node)) {
+    const frame = node as FrameNode;
+    const horizontal = getSizingMode(size, 'horizontal', true);
+    const vertical = getSizingMode(size, 'vertical', true);
+    const [primary, counter] = frame.layoutMode === 'HORIZONTAL' ? [horizontal, vertical] : [vertical, horizontal];
+    frame.primaryAxisSizingMode = primary === 'HUG' ? 'AUTO' : 'FIXED';
+    frame.counterAxisSizingMode = counter === 'HUG' ? 'AUTO' : 'FIXED';
+    applySizeLimits(frame, size);
+  }
+}
+
+/**
+ * Applies fill, `layoutGrow`/`layoutAlign` and min/max limits to a node once
+ * it has been placed in its parent; they only take effect in auto layout.
+ */
+function applyChildSizing(node: SceneNode, size: SizeSpec | undefined, parent: FrameNode) {
+  if (!isAutoLayoutFrame(parent) || !('layoutGrow' in node)) return;
+  const { layoutGrow, layoutAlign } = resolveChildSizing(size, parent.layoutMode);
+  (node as LayoutMixin).layoutGrow = layoutGrow;
+  (node as LayoutMixin).layoutAlign = layoutAlign;
+  applySizeLimits(node, size);
+}
+
+/**
+ * Sets the text the active states give to text elements. Elements bound to a
+ * text property take their content from the property instead.
+ */
+function applyTextOverrides(structure: ElementSpec, states: StateSpec[], context: BuildContext) {
+  flattenElements(structure).forEach((element) => {
+    const text = resolveTextOverride(states, element);
+    const node = context.nodeByElementId.get(element.id);
+    if (typeof text === 'undefined' || node?.type !== 'TEXT') return;
+    (node as TextNode).characters = text;
+  });
+}
+
+/**
+ * Pins absolutely positioned elements to the edges of their parents. Runs once
+ * the base style and states are applied so offsets from the end use the final
+ * parent size; the constraints keep them in place when the parent resizes.
+ */
+function positionAbsoluteElements(structure: ElementSpec, context: BuildContext) {
+  flattenElements(structure).forEach((element) => {
+    const node = context.nodeByElementId.get(element.id);
+    if (!element.position || !node?.parent || element === structure) return;
+    const placement = resolveAbsolutePosition(element.position, node.parent, node);
+    if (placement.width !== node.width || placement.height !== node.height) {
+      (node as LayoutMixin).resizeWithoutConstraints(Math.max(placement.width, 0.01), Math.max(placement.height, 0.01));
+    }
+    node.x = placement.x;
+    node.y = placement.y;
+    if ('constraints' in node) {
+      node.constraints = placement.constraints;
+    }
+  });
+}
+
+function applySizeLimits(node: SceneNode, size: SizeSpec | undefined) {
+  if (!('minWidth' in node)) return;
+  const layoutNode = node as LayoutMixin;
+  layoutNode.minWidth = size?.minWidth ?? null;
+  layoutNode.maxWidth = size?.maxWidth ?? null;
+  layoutNode.minHeight = size?.minHeight ?? null;
+  layoutNode.maxHeight = size?.maxHeight ?? null;
+}
+
+function isAutoLayoutFrame(node: SceneNode): boolean {
+  return 'layoutMode' in node && (node as FrameNode).layoutMode !== 'NONE';
 }
 
 function applyCornerRadius(node: GeometryMixin, radius: any) {
@@ -607,8 +1246,72 @@ function applyCornerRadius(node: GeometryMixin, radius: any) {
   }
 }
 
-function convertFill(fill: any): Paint {
-  const rgba = parseColor(fill.color);
+/**
+ * Writes fills or strokes to a node, binding each solid paint to a matching
+ * local variable or, for single paints, to a matching paint style. Values
+ * without a match (including gradients and images) are written as literal
+ * paints and recorded as such in the report.
+ */
+function applyPaints(
+  node: SceneNode,
+  property: 'fills' | 'strokes',
+  specs: (FillSpec | StrokeSpec)[],
+  context: BuildContext,
+) {
+  const { catalog, mapping, report, variables } = context.styles;
+  const kind = property === 'fills' ? 'fill' : 'stroke';
+  if (property === 'strokes') applyStrokeGeometry(node, specs as StrokeSpec[]);
+  const matches = specs.map((spec) =>
+    spec.type === 'SOLID'
+      ? matchColor(spec.color, resolveColor(spec.color, context.tokens), spec.opacity, catalog, mapping)
+      : undefined,
+  );
+  const paints = specs.map((spec) =>
+    property === 'fills' ? convertFill(spec as FillSpec, context.tokens) : convertStroke(spec as StrokeSpec, context.tokens),
+  );
+  const label = (spec: FillSpec | StrokeSpec) => describeFill(spec);
+
+  if (specs.length === 1 && matches[0]?.via === 'PAINT_STYLE') {
+    (node as GeometryMixin)[property] = paints;
+    (node as any)[property === 'fills' ? 'fillStyleId' : 'strokeStyleId'] = matches[0].id;
+    recordStyleBinding(report, { kind, value: label(specs[0]), target: matches[0].name, via: matches[0].via });
+    return;
+  }
+
+  (node as GeometryMixin)[property] = paints.map((paint, index) => {
+    const match = matches[index];
+    const variable = match?.via === 'VARIABLE' ? variables.get(match.id) : undefined;
+    if (match && variable) {
+      recordStyleBinding(report, { kind, value: label(specs[index]), target: match.name, via: match.via });
+      return figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+    }
+    recordStyleBinding(report, { kind, value: label(specs[index]) });
+    return paint;
+  });
+}
+
+function convertFill(fill: FillSpec, tokens?: DesignTokensRef): Paint {
+  if (isGradientFill(fill)) {
+    return {
+      type: fill.type,
+      gradientTransform: gradientTransformFromAngle(getGradientAngle(fill)),
+      gradientStops: fill.stops.map((stop) => {
+        const rgba = parseColor(resolveColor(stop.color, tokens) ?? '#000000');
+        return { position: stop.position, color: { r: rgba.r, g: rgba.g, b: rgba.b, a: stop.opacity ?? rgba.a } };
+      }),
+      opacity: fill.opacity ?? 1,
+    } as GradientPaint;
+  }
+  if (fill.type === 'IMAGE') {
+    const image = figma.createImage(figma.base64Decode(fill.imageBase64));
+    return {
+      type: 'IMAGE',
+      imageHash: image.hash,
+      scaleMode: fill.scaleMode,
+      opacity: fill.opacity ?? 1,
+    } as ImagePaint;
+  }
+  const rgba = parseColor(resolveColor(fill.color, tokens) ?? '#000000');
   return {
     type: 'SOLID',
     color: { r: rgba.r, g: rgba.g, b: rgba.b },
@@ -616,8 +1319,32 @@ function convertFill(fill: any): Paint {
   } as SolidPaint;
 }
 
-function convertStroke(stroke: any): Paint {
-  const rgba = parseColor(stroke.color);
+/**
+ * Applies weight, alignment and dashes of the topmost stroke to the node.
+ * Per-side weights are only supported by frames and rectangles; other nodes
+ * fall back to the uniform weight.
+ */
+function applyStrokeGeometry(node: SceneNode, strokes: StrokeSpec[]) {
+  const stroke = strokes[strokes.length - 1];
+  if (!stroke) return;
+  if (stroke.sideWeights && 'strokeTopWeight' in node) {
+    node.strokeTopWeight = stroke.sideWeights.top;
+    node.strokeRightWeight = stroke.sideWeights.right;
+    node.strokeBottomWeight = stroke.sideWeights.bottom;
+    node.strokeLeftWeight = stroke.sideWeights.left;
+  } else if ('strokeWeight' in node) {
+    node.strokeWeight = stroke.weight;
+  }
+  if ('strokeAlign' in node) {
+    node.strokeAlign = stroke.strokeAlign ?? 'INSIDE';
+  }
+  if ('dashPattern' in node) {
+    node.dashPattern = stroke.dashPattern ?? [];
+  }
+}
+
+function convertStroke(stroke: StrokeSpec, tokens?: DesignTokensRef): Paint {
+  const rgba = parseColor(resolveColor(stroke.color, tokens) ?? '#000000');
   return {
     type: 'SOLID',
     color: { r: rgba.r, g: rgba.g, b: rgba.b },
@@ -625,9 +1352,9 @@ function convertStroke(stroke: any): Paint {
   } as SolidPaint;
 }
 
-function convertEffect(effect: any): Effect {
+function convertEffect(effect: EffectSpec, tokens?: DesignTokensRef): Effect {
   if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
-    const rgba = parseColor(effect.color);
+    const rgba = parseColor(resolveColor(effect.color, tokens) ?? '#000000');
     return {
       type: effect.type,
       radius: effect.radius,
@@ -672,15 +1399,15 @@ function parseColor(color: string): { r: number; g: number; b: number; a: number
   return { r: 0, g: 0, b: 0, a: 1 };
 }
 
-function createIconInstance(spec: ElementSpec, context: BuildContext): InstanceNode {
-  const iconInstance = context.iconMaster.createInstance();
+function createIconInstance(spec: ElementSpec, context: BuildContext, existing?: InstanceNode): InstanceNode {
+  const iconInstance = existing ?? context.iconMaster.createInstance();
   if (spec.size) {
     iconInstance.resizeWithoutConstraints(spec.size.width ?? 16, spec.size.height ?? 16);
   }
   if (spec.fills) {
     iconInstance.children.forEach((child) => {
       if ('fills' in child) {
-        (child as GeometryMixin).fills = spec.fills!.map(convertFill);
+        applyPaints(child, 'fills', spec.fills!, context);
       }
     });
   }
@@ -742,8 +1469,9 @@ function buildVariantName(baseName: string, combination: VariantCombination): st
 function combineAsVariants(
   components: ComponentNode[],
   groups: VariantGroupSpec[],
+  parent: FrameNode | PageNode,
 ): ComponentSetNode {
-  const set = figma.combineAsVariants(components, figma.currentPage);
+  const set = figma.combineAsVariants(components, parent);
   set.name = components[0].name.split(' / ')[0];
   applyVariantGroups(set, groups);
   return set;
@@ -792,17 +1520,18 @@ function collectFonts(spec: ComponentSpec): FontName[] {
       registerFont(element.text?.default ? 'Inter' : 'Inter');
     });
 
+  const registerTextStyle = (value?: TextStyleValue) => {
+    const textStyle = resolveTextStyle(value, spec.styleTokens);
+    if (textStyle) {
+      registerFont(textStyle.fontFamily, textStyle.fontWeight);
+    }
+  };
+
   const inspectStyle = (style?: StateSpec['style']) => {
     if (!style) return;
-    if (style.textStyle) {
-      registerFont(style.textStyle.fontFamily, style.textStyle.fontWeight);
-    }
+    registerTextStyle(style.textStyle);
     if (style.elements) {
-      Object.values(style.elements).forEach((elementStyle) => {
-        if (elementStyle.textStyle) {
-          registerFont(elementStyle.textStyle.fontFamily, elementStyle.textStyle.fontWeight);
-        }
-      });
+      Object.values(style.elements).forEach((elementStyle) => registerTextStyle(elementStyle.textStyle));
     }
   };
 
@@ -812,6 +1541,17 @@ function collectFonts(spec: ComponentSpec): FontName[] {
   return Array.from(fonts.values());
 }
 
+function collectExistingFonts(root: ComponentSetNode | ComponentNode): FontName[] {
+  const textNodes: TextNode[] = root.findAllWithCriteria({ types: ['TEXT'] });
+  return textNodes
+    .map((node) => node.fontName)
+    .filter((fontName): fontName is FontName => typeof fontName !== 'symbol');
+}
+
+function describeTextStyle(style: TextStyleSpec): string {
+  return `${style.fontFamily} ${style.fontWeight ?? 400} / ${style.fontSize}`;
+}
+
 function weightToStyle(weight?: number): string {
   if (!weight) return 'Regular';
   if (weight >= 900) return 'Black';
@@ -825,7 +1565,17 @@ function weightToStyle(weight?: number): string {
   return 'Thin';
 }
 
-function applyTextStyle(node: TextNode, style: any) {
+function applyTextStyle(node: TextNode, value: TextStyleValue, context: BuildContext) {
+  const style = resolveTextStyle(value, context.tokens);
+  if (!style) return;
+  const label = isTokenRef(value) ? value.token : describeTextStyle(style);
+  const match = matchTextStyle(value, style, context.styles.catalog, context.styles.mapping);
+  if (match) {
+    node.textStyleId = match.id;
+    recordStyleBinding(context.styles.report, { kind: 'text', value: label, target: match.name, via: match.via });
+    return;
+  }
+  recordStyleBinding(context.styles.report, { kind: 'text', value: label });
   node.fontName = {
     family: style.fontFamily,
     style: weightToStyle(style.fontWeight),
@@ -840,3 +1590,440 @@ function applyTextStyle(node: TextNode, style: any) {
     node.letterSpacing = { unit: 'PERCENT', value: style.letterSpacing };
   }
 }
+
+function captureSpecFromSelection(): ComponentSpec {
+  const selected = figma.currentPage.selection[0];
+  const set: ComponentSetNode | undefined =
+    selected?.type === 'COMPONENT_SET'
+      ? selected
+      : selected?.type === 'COMPONENT' && selected.parent?.type === 'COMPONENT_SET'
+        ? selected.parent
+        : undefined;
+  if (!set) {
+    throw new Error('Select a component set (or one of its variants) to capture.');
+  }
+
+  const variants: ComponentNode[] = set.children.filter((child: SceneNode) => child.type === 'COMPONENT');
+  const baseVariant: ComponentNode = set.defaultVariant ?? variants[0];
+  if (!baseVariant) {
+    throw new Error('The selected component set has no variants.');
+  }
+
+  const propKeys = new Map<string, string>();
+  const propDefinitions = capturePropDefinitions(set.componentPropertyDefinitions ?? {}, propKeys);
+
+  const context: CaptureContext = {
+    paths: new Map(),
+    ids: new Set(),
+    bindings: [],
+    propKeys,
+    textStyles: {},
+  };
+  const structure = captureElement(baseVariant, '', context, true);
+  structure.name = set.name;
+  structure.role = 'container';
+
+  const captured = variants.map((variant) => captureVariant(variant, context));
+
+  // Link the captured set to the spec so that creating from it updates the
+  // existing nodes in place instead of generating a copy.
+  const specId = set.getPluginData(SPEC_ID_KEY) || createSpecId();
+  set.setPluginData(SPEC_ID_KEY, specId);
+  variants.forEach((variant) => variant.setPluginData(SPEC_ID_KEY, specId));
+  const base = captured[variants.indexOf(baseVariant)] ?? captured[0];
+
+  const baseStyle: StateSpec['style'] = {};
+  if (base.root.textStyle) {
+    baseStyle.textStyle = base.root.textStyle;
+  }
+  Object.entries(context.textStyles).forEach(([elementId, textStyle]) => {
+    baseStyle.elements = baseStyle.elements ?? {};
+    baseStyle.elements[elementId] = { textStyle };
+  });
+
+  const variantGroups = captureVariantGroups(set.variantGroupProperties ?? {});
+  const missing = findMissingCombinations(variantGroups, captured);
+
+  return {
+    specVersion: CURRENT_SPEC_VERSION,
+    id: specId,
+    name: set.name,
+    template: 'custom',
+    structure,
+    variantGroups,
+    excludedCombinations: missing.length ? missing : undefined,
+    states: buildCapturedStates(captured, base),
+    propDefinitions,
+    bindings: context.bindings,
+    baseStyle: Object.keys(baseStyle).length ? baseStyle : undefined,
+  };
+}
+
+interface CaptureContext {
+  paths: Map<string, string>;
+  ids: Set<string>;
+  bindings: PropBinding[];
+  propKeys: Map<string, string>;
+  textStyles: Record<string, TextStyleValue>;
+}
+
+function captureVariantGroups(properties: ComponentSetVariantGroupProperties): VariantGroupSpec[] {
+  return Object.entries(properties).map(([name, group]: [string, any]) => ({
+    name,
+    values: [...group.values],
+  }));
+}
+
+function capturePropDefinitions(
+  definitions: Record<string, ComponentPropertyDefinition>,
+  propKeys: Map<string, string>,
+): PropDefinitions {
+  const result: PropDefinitions = {};
+  const taken = new Set<string>();
+  Object.entries(definitions).forEach(([figmaName, definition]) => {
+    if (definition.type === 'VARIANT') return;
+    const key = reserveIdentifier(toPropKey(figmaName), taken);
+    propKeys.set(figmaName, key);
+    const name = figmaName.replace(/#.*$/, '');
+    if (definition.type === 'BOOLEAN') {
+      result.boolean = result.boolean ?? {};
+      result.boolean[key] = { name, defaultValue: Boolean(definition.defaultValue) };
+    } else if (definition.type === 'TEXT') {
+      result.text = result.text ?? {};
+      result.text[key] = { name, defaultValue: String(definition.defaultValue ?? '') };
+    } else if (definition.type === 'INSTANCE_SWAP') {
+      result.swap = result.swap ?? {};
+      result.swap[key] = {
+        name,
+        defaultComponentKey: definition.defaultValue ? String(definition.defaultValue) : undefined,
+      };
+    }
+  });
+  return result;
+}
+
+function captureElement(node: SceneNode, path: string, context: CaptureContext, isRoot = false): ElementSpec {
+  const id = reserveIdentifier(toIdentifier(node.name), context.ids);
+  context.paths.set(path, id);
+  if (!isRoot) {
+    node.setPluginData(ELEMENT_ID_KEY, id);
+  }
+  const style = captureElementStyle(node);
+  const element: ElementSpec = {
+    id,
+    name: node.name,
+    type: mapNodeKind(node),
+  };
+  const size = isRoot ? undefined : captureSize(node);
+  if (size) element.size = size;
+  if (style.visible === false) element.defaultVisible = false;
+  if (style.fills) element.fills = style.fills;
+  if (style.strokes) element.strokes = style.strokes;
+  if (typeof style.cornerRadius !== 'undefined') element.cornerRadius = style.cornerRadius;
+  if (style.effects) element.effects = style.effects;
+  if (node.type === 'TEXT') {
+    element.text = { default: node.characters };
+    if (style.textStyle) context.textStyles[id] = style.textStyle;
+  }
+  const layout = captureAutoLayout(node);
+  if (layout) element.layout = layout;
+  const position = isRoot ? undefined : capturePosition(node);
+  if (position) element.position = position;
+
+  captureBindings(node, id, context);
+
+  if (element.type === 'FRAME' && 'children' in node) {
+    element.children = node.children.map((child: SceneNode, index: number) =>
+      captureElement(child, joinPath(path, index), context),
+    );
+  }
+  return element;
+}
+
+function captureVariant(variant: ComponentNode, context: CaptureContext): CapturedVariant {
+  const elements: Record<string, ElementStyleSpec> = {};
+  const visit = (node: SceneNode, path: string) => {
+    if (!('children' in node) || mapNodeKind(node) !== 'FRAME') return;
+    node.children.forEach((child: SceneNode, index: number) => {
+      const childPath = joinPath(path, index);
+      const elementId = context.paths.get(childPath);
+      if (!elementId) return;
+      child.setPluginData(ELEMENT_ID_KEY, elementId);
+      elements[elementId] = captureElementStyle(child);
+      visit(child, childPath);
+    });
+  };
+  visit(variant, '');
+  const root = captureElementStyle(variant);
+  delete root.visible;
+  return {
+    combination: { ...(variant.variantProperties ?? {}) },
+    root,
+    layout: captureLayoutOverride(variant),
+    elements,
+  };
+}
+
+function joinPath(path: string, index: number): string {
+  return path ? `${path}/${index}` : `${index}`;
+}
+
+function mapNodeKind(node: SceneNode): ElementSpec['type'] {
+  switch (node.type) {
+    case 'TEXT':
+      return 'TEXT';
+    case 'RECTANGLE':
+      return 'RECTANGLE';
+    case 'ELLIPSE':
+      return 'ELLIPSE';
+    case 'INSTANCE':
+    case 'VECTOR':
+    case 'BOOLEAN_OPERATION':
+    case 'STAR':
+    case 'POLYGON':
+    case 'LINE':
+      return 'ICON';
+    default:
+      return 'FRAME';
+  }
+}
+
+function captureBindings(node: SceneNode, elementId: string, context: CaptureContext) {
+  const references = node.componentPropertyReferences ?? {};
+  const register = (figmaName: string | undefined, type: PropBinding['type']) => {
+    if (!figmaName) return;
+    const propName = context.propKeys.get(figmaName);
+    if (!propName) return;
+    context.bindings.push({ propName, type, target: { kind: 'NODE', nodeId: elementId } });
+  };
+  register(references.visible ?? references.visibility, 'BOOLEAN');
+  register(references.characters, 'TEXT');
+  register(references.mainComponent, 'INSTANCE_SWAP');
+}
+
+function captureElementStyle(node: SceneNode): ElementStyleSpec {
+  const style: ElementStyleSpec = {};
+  const fills = capturePaints(node.fills, true);
+  if (fills) style.fills = fills;
+  const strokes = capturePaints(node.strokes, false);
+  if (strokes) {
+    const geometry = captureStrokeGeometry(node);
+    style.strokes = strokes.map((fill): StrokeSpec => ({ ...(fill as SolidFillSpec), ...geometry }));
+  }
+  const radius = captureCornerRadius(node);
+  if (typeof radius !== 'undefined') style.cornerRadius = radius;
+  if (Array.isArray(node.effects)) {
+    style.effects = captureEffects(node.effects);
+  }
+  if (node.type === 'TEXT') {
+    const textStyle = captureTextStyle(node);
+    if (textStyle) style.textStyle = textStyle;
+  }
+  style.visible = node.visible !== false;
+  return style;
+}
+
+/**
+ * Captures visible solid paints and, when `includeGradients` is set, gradient
+ * paints. Image paints are skipped because their bytes can only be read
+ * asynchronously.
+ */
+function capturePaints(paints: unknown, includeGradients: boolean): FillSpec[] | undefined {
+  if (!Array.isArray(paints)) return undefined;
+  return paints
+    .filter(
+      (paint: Paint) =>
+        paint.visible !== false && (paint.type === 'SOLID' || (includeGradients && GRADIENT_TYPES.includes(paint.type))),
+    )
+    .map((paint: Paint) => {
+      const fill: FillSpec =
+        paint.type === 'SOLID'
+          ? { type: 'SOLID', color: toHexColor(paint.color) }
+          : {
+              type: paint.type,
+              angle: angleFromGradientTransform(paint.gradientTransform),
+              stops: paint.gradientStops.map((stop: ColorStop) => {
+                const captured: GradientStopSpec = {
+                  position: Number(stop.position.toFixed(3)),
+                  color: toHexColor(stop.color),
+                };
+                if (stop.color.a < 1) captured.opacity = Number(stop.color.a.toFixed(2));
+                return captured;
+              }),
+            };
+      if (typeof paint.opacity === 'number' && paint.opacity < 1) {
+        fill.opacity = Number(paint.opacity.toFixed(2));
+      }
+      return fill;
+    });
+}
+
+/**
+ * Reads the node-level stroke properties. Mixed stroke weights mean the sides
+ * differ, in which case the per-side weights are recorded.
+ */
+function captureStrokeGeometry(node: SceneNode): Omit<StrokeSpec, 'type' | 'color' | 'opacity'> {
+  const geometry: Omit<StrokeSpec, 'type' | 'color' | 'opacity'> = {
+    weight: typeof node.strokeWeight === 'number' ? node.strokeWeight : 1,
+  };
+  if (typeof node.strokeWeight !== 'number' && 'strokeTopWeight' in node) {
+    geometry.sideWeights = {
+      top: node.strokeTopWeight,
+      right: node.strokeRightWeight,
+      bottom: node.strokeBottomWeight,
+      left: node.strokeLeftWeight,
+    };
+    geometry.weight = Math.max(...Object.values(geometry.sideWeights));
+  }
+  if (node.strokeAlign && node.strokeAlign !== 'INSIDE') geometry.strokeAlign = node.strokeAlign;
+  if (Array.isArray(node.dashPattern) && node.dashPattern.length) geometry.dashPattern = [...node.dashPattern];
+  return geometry;
+}
+
+function captureCornerRadius(node: SceneNode): CornerRadiusSpec | undefined {
+  if (!('cornerRadius' in node)) return undefined;
+  if (typeof node.cornerRadius === 'number') {
+    return node.cornerRadius || undefined;
+  }
+  if ('topLeftRadius' in node) {
+    return {
+      tl: node.topLeftRadius,
+      tr: node.topRightRadius,
+      br: node.bottomRightRadius,
+      bl: node.bottomLeftRadius,
+    };
+  }
+  return undefined;
+}
+
+function captureEffects(effects: Effect[]): EffectSpec[] {
+  return effects
+    .filter((effect) => effect.visible !== false)
+    .map((effect): EffectSpec => {
+      if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+        return {
+          type: effect.type,
+          offset: { x: effect.offset.x, y: effect.offset.y },
+          radius: effect.radius,
+          spread: effect.spread ?? 0,
+          color: toHexColor(effect.color),
+          opacity: Number(effect.color.a.toFixed(2)),
+        };
+      }
+      return { type: effect.type, radius: effect.radius };
+    });
+}
+
+function captureTextStyle(node: TextNode): TextStyleSpec | undefined {
+  if (typeof node.fontName === 'symbol' || typeof node.fontSize !== 'number') {
+    return undefined;
+  }
+  const style: TextStyleSpec = {
+    fontFamily: node.fontName.family,
+    fontSize: node.fontSize,
+    fontWeight: styleToWeight(node.fontName.style),
+  };
+  if (typeof node.lineHeight === 'object' && node.lineHeight.unit === 'PIXELS') {
+    style.lineHeight = node.lineHeight.value;
+  }
+  if (typeof node.letterSpacing === 'object' && node.letterSpacing.unit === 'PERCENT' && node.letterSpacing.value) {
+    style.letterSpacing = node.letterSpacing.value;
+  }
+  return style;
+}
+
+function captureAutoLayout(node: SceneNode): AutoLayoutSpec | undefined {
+  if (!('layoutMode' in node) || node.layoutMode === 'NONE') return undefined;
+  const layout: AutoLayoutSpec = {
+    direction: node.layoutMode,
+    gap: node.itemSpacing,
+    padding: collectPadding(node),
+    alignment: unmapFigmaAlign(node.primaryAxisAlignItems),
+  };
+  const counterAlignment: CounterAlignment =
+    node.counterAxisAlignItems === 'BASELINE' ? 'BASELINE' : (unmapFigmaAlign(node.counterAxisAlignItems) as CounterAlignment);
+  if (counterAlignment !== getCounterAlignment(layout)) layout.counterAlignment = counterAlignment;
+  if (node.layoutWrap === 'WRAP') {
+    layout.wrap = true;
+    if (node.counterAxisSpacing !== node.itemSpacing) layout.rowGap = node.counterAxisSpacing;
+  }
+  return layout;
+}
+
+/**
+ * Reads the offsets of an absolutely positioned node from the edges its
+ * constraints pin it to.
+ */
+function capturePosition(node: SceneNode): AbsolutePositionSpec | undefined {
+  if (!('layoutPositioning' in node) || node.layoutPositioning !== 'ABSOLUTE' || !node.parent) return undefined;
+  const right = node.parent.width - node.x - node.width;
+  const bottom = node.parent.height - node.y - node.height;
+  const { horizontal, vertical } = node.constraints ?? {};
+  const position: AbsolutePositionSpec = {};
+  if (horizontal !== 'MAX') position.left = node.x;
+  if (horizontal === 'MAX' || horizontal === 'STRETCH') position.right = right;
+  if (vertical !== 'MAX') position.top = node.y;
+  if (vertical === 'MAX' || vertical === 'STRETCH') position.bottom = bottom;
+  return position;
+}
+
+/**
+ * Reads the sizing of a node: fixed axes keep their dimension, filling axes
+ * are recorded as modes and hugging axes are left to the default.
+ */
+function captureSize(node: SceneNode): SizeSpec | undefined {
+  const size: SizeSpec = {};
+  const horizontal: SizingMode = 'layoutSizingHorizontal' in node ? node.layoutSizingHorizontal : 'FIXED';
+  const vertical: SizingMode = 'layoutSizingVertical' in node ? node.layoutSizingVertical : 'FIXED';
+  if (horizontal === 'FIXED') size.width = node.width;
+  if (vertical === 'FIXED') size.height = node.height;
+  if (horizontal === 'FILL') size.horizontalSizing = 'FILL';
+  if (vertical === 'FILL') size.verticalSizing = 'FILL';
+  if ('minWidth' in node) {
+    const layoutNode = node as LayoutMixin;
+    if (typeof layoutNode.minWidth === 'number') size.minWidth = layoutNode.minWidth;
+    if (typeof layoutNode.maxWidth === 'number') size.maxWidth = layoutNode.maxWidth;
+    if (typeof layoutNode.minHeight === 'number') size.minHeight = layoutNode.minHeight;
+    if (typeof layoutNode.maxHeight === 'number') size.maxHeight = layoutNode.maxHeight;
+  }
+  if (node.type === 'TEXT' && node.textAutoResize === 'TRUNCATE') size.textAutoResize = 'TRUNCATE';
+  return Object.keys(size).length ? size : undefined;
+}
+
+function captureLayoutOverride(node: SceneNode): LayoutOverrideSpec | undefined {
+  const layout = captureAutoLayout(node);
+  if (!layout) return undefined;
+  return {
+    autolayout: {
+      padding: layout.padding,
+      gap: layout.gap,
+      align: layout.alignment === 'SPACE_BETWEEN' ? 'space-between' : (layout.alignment.toLowerCase() as 'start' | 'center' | 'end'),
+    },
+  };
+}
+
+function unmapFigmaAlign(value: string): AutoLayoutSpec['alignment'] {
+  switch (value) {
+    case 'CENTER':
+      return 'CENTER';
+    case 'MAX':
+      return 'END';
+    case 'SPACE_BETWEEN':
+      return 'SPACE_BETWEEN';
+    default:
+      return 'START';
+  }
+}
+
+function styleToWeight(style: string): number {
+  const normalized = style.toLowerCase().replace(/\s+/g, '');
+  if (normalized.includes('black')) return 900;
+  if (normalized.includes('extrabold')) return 800;
+  if (normalized.includes('semibold')) return 600;
+  if (normalized.includes('bold')) return 700;
+  if (normalized.includes('medium')) return 500;
+  if (normalized.includes('extralight')) return 200;
+  if (normalized.includes('light')) return 300;
+  if (normalized.includes('thin')) return 100;
+  return 400;
+}
@@ -8,16 +8,25 @@ declare module '*.css';
 declare const figma: any;
 type SceneNode = any;
 type FrameNode = any;
+type PageNode = any;
 type ComponentNode = any;
 type ComponentSetNode = any;
 type InstanceNode = any;
 type TextNode = any;
+type FontName = { family: string; style: string };
 type ComponentSetVariantGroupProperties = any;
 type ComponentPropertyDefinition = any;
 type Paint = any;
 type SolidPaint = any;
+type GradientPaint = any;
+type ImagePaint = any;
+type ColorStop = any;
 type Effect = any;
 type ShadowEffect = any;
 type BlurEffect = any;
 type GeometryMixin = any;
 type LayoutMixin = any;
+type Variable = any;
+type VariableCollection = any;
+type PaintStyle = any;
+type TextStyle = any;
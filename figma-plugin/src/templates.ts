@@ -1,4 +1,5 @@
-import { ComponentSpec, ElementSpec, TemplateSpec } from './types';
+import { ComponentSpec, ElementSpec, StateSpec, TemplateSpec } from './types';
+import { CURRENT_SPEC_VERSION } from './utils/schema';
 import { deepCloneSpec } from './utils/spec';
 
 /**
@@ -132,6 +133,7 @@ const buttonSpec: ComponentSpec = {
       name: 'size-sm',
       label: 'Size • Small',
       appliesTo: { size: 'sm' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -151,6 +153,7 @@ const buttonSpec: ComponentSpec = {
       name: 'size-md',
       label: 'Size • Medium',
       appliesTo: { size: 'md' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -170,6 +173,7 @@ const buttonSpec: ComponentSpec = {
       name: 'size-lg',
       label: 'Size • Large',
       appliesTo: { size: 'lg' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -303,7 +307,7 @@ const dropdownStructure: ElementSpec = {
         padding: [4, 4, 4, 4],
         alignment: 'START',
       },
-      defaultVisible: false,
+      visibleWhen: { state: 'open' },
       children: [
         {
           id: 'dropdown-item-1',
@@ -347,13 +351,7 @@ const dropdownSpec: ComponentSpec = {
     {
       name: 'open',
       appliesTo: { state: 'open' },
-      style: {
-        elements: {
-          list: {
-            visible: true,
-          },
-        },
-      },
+      style: {},
       propValues: {
         boolean: { listVisible: true },
       },
@@ -374,6 +372,7 @@ const dropdownSpec: ComponentSpec = {
       name: 'size-sm',
       label: 'Size • Small',
       appliesTo: { size: 'sm' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -388,6 +387,7 @@ const dropdownSpec: ComponentSpec = {
       name: 'size-md',
       label: 'Size • Medium',
       appliesTo: { size: 'md' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -530,6 +530,7 @@ const toggleSpec: ComponentSpec = {
       name: 'size-sm',
       label: 'Size • Small',
       appliesTo: { size: 'sm' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -538,17 +539,13 @@ const toggleSpec: ComponentSpec = {
             align: 'center',
           },
         },
-        elements: {
-          track: {
-            fills: [{ type: 'SOLID', color: '#d1d5db' }],
-          },
-        },
       },
     },
     {
       name: 'size-md',
       label: 'Size • Medium',
       appliesTo: { size: 'md' },
+      priority: 1,
       style: {
         layout: {
           autolayout: {
@@ -581,6 +578,214 @@ const toggleSpec: ComponentSpec = {
   ],
 };
 
+const badgeStructure: ElementSpec = {
+  id: 'badge-root',
+  name: 'Badge/Container',
+  type: 'FRAME',
+  role: 'container',
+  layout: {
+    direction: 'HORIZONTAL',
+    gap: 4,
+    padding: [2, 8, 2, 8],
+    alignment: 'CENTER',
+  },
+  cornerRadius: 999,
+  fills: [{ type: 'SOLID', color: '#1f5af6' }],
+  children: [
+    {
+      id: 'badge-dot',
+      name: 'Dot',
+      type: 'ELLIPSE',
+      role: 'dot',
+      defaultVisible: false,
+      size: { width: 6, height: 6 },
+      fills: [{ type: 'SOLID', color: '#ffffff' }],
+    },
+    {
+      id: 'badge-icon',
+      name: 'Icon',
+      type: 'ICON',
+      role: 'icon',
+      defaultVisible: false,
+      size: { width: 12, height: 12 },
+      fills: [{ type: 'SOLID', color: '#ffffff' }],
+    },
+    {
+      id: 'badge-label',
+      name: 'Label',
+      type: 'TEXT',
+      role: 'label',
+      text: { default: 'Badge', placeholder: 'Label or count' },
+      fills: [{ type: 'SOLID', color: '#ffffff' }],
+    },
+  ],
+};
+
+/**
+ * Colour palette per badge tone. Each entry provides the strong colour used
+ * for solid backgrounds and outlines, the soft background of the subtle
+ * appearance and the foreground used on light backgrounds.
+ */
+const badgeTones: Record<string, { strong: string; soft: string; foreground: string }> = {
+  neutral: { strong: '#374151', soft: '#f3f4f6', foreground: '#374151' },
+  brand: { strong: '#1f5af6', soft: '#e0e9ff', foreground: '#1f5af6' },
+  success: { strong: '#16a34a', soft: '#dcfce7', foreground: '#15803d' },
+  danger: { strong: '#dc2626', soft: '#fee2e2', foreground: '#b91c1c' },
+};
+
+/**
+ * Expands the tone palette into one state per tone and appearance pair.
+ */
+function createBadgeAppearanceStates(): StateSpec[] {
+  const states: StateSpec[] = [];
+  Object.entries(badgeTones).forEach(([tone, palette]) => {
+    const solidForeground = [{ type: 'SOLID' as const, color: '#ffffff' }];
+    const softForeground = [{ type: 'SOLID' as const, color: palette.foreground }];
+    states.push(
+      {
+        name: `${tone}-solid`,
+        label: `${tone} • Solid`,
+        appliesTo: { tone, appearance: 'solid' },
+        style: {
+          fills: [{ type: 'SOLID', color: palette.strong }],
+          strokes: [],
+          elements: {
+            label: { fills: solidForeground },
+            dot: { fills: solidForeground },
+            icon: { fills: solidForeground },
+          },
+        },
+      },
+      {
+        name: `${tone}-subtle`,
+        label: `${tone} • Subtle`,
+        appliesTo: { tone, appearance: 'subtle' },
+        style: {
+          fills: [{ type: 'SOLID', color: palette.soft }],
+          strokes: [],
+          elements: {
+            label: { fills: softForeground },
+            dot: { fills: [{ type: 'SOLID', color: palette.strong }] },
+            icon: { fills: softForeground },
+          },
+        },
+      },
+      {
+        name: `${tone}-outline`,
+        label: `${tone} • Outline`,
+        appliesTo: { tone, appearance: 'outline' },
+        style: {
+          fills: [],
+          strokes: [{ type: 'SOLID', color: palette.strong, weight: 1 }],
+          elements: {
+            label: { fills: softForeground },
+            dot: { fills: [{ type: 'SOLID', color: palette.strong }] },
+            icon: { fills: softForeground },
+          },
+        },
+      },
+    );
+  });
+  return states;
+}
+
+const badgeSpec: ComponentSpec = {
+  name: 'Badge',
+  template: 'badge',
+  structure: badgeStructure,
+  variantGroups: [
+    { name: 'tone', values: Object.keys(badgeTones) },
+    { name: 'size', values: ['sm', 'md'] },
+    { name: 'appearance', values: ['solid', 'subtle', 'outline'] },
+  ],
+  states: [
+    ...createBadgeAppearanceStates(),
+    {
+      name: 'size-sm',
+      label: 'Size • Small',
+      appliesTo: { size: 'sm' },
+      priority: 1,
+      style: {
+        layout: {
+          autolayout: {
+            padding: [0, 6, 0, 6],
+            gap: 4,
+            align: 'center',
+          },
+        },
+        textStyle: {
+          fontFamily: 'Inter',
+          fontSize: 11,
+          lineHeight: 16,
+          fontWeight: 600,
+        },
+      },
+    },
+    {
+      name: 'size-md',
+      label: 'Size • Medium',
+      appliesTo: { size: 'md' },
+      priority: 1,
+      style: {
+        layout: {
+          autolayout: {
+            padding: [2, 8, 2, 8],
+            gap: 4,
+            align: 'center',
+          },
+        },
+        textStyle: {
+          fontFamily: 'Inter',
+          fontSize: 12,
+          lineHeight: 16,
+          fontWeight: 600,
+        },
+      },
+    },
+  ],
+  propDefinitions: {
+    boolean: {
+      showDot: {
+        name: 'Dot',
+        description: 'Show a status dot before the label.',
+        defaultValue: false,
+      },
+      showIcon: {
+        name: 'Icon',
+        description: 'Show an icon before the label.',
+        defaultValue: false,
+      },
+    },
+    text: {
+      label: {
+        name: 'Label',
+        description: 'Badge label or count.',
+        defaultValue: 'Badge',
+      },
+    },
+    swap: {
+      icon: {
+        name: 'Icon Instance',
+        description: 'Swap the badge icon.',
+      },
+    },
+  },
+  bindings: [
+    { propName: 'showDot', type: 'BOOLEAN', target: { kind: 'ROLE', role: 'dot' } },
+    { propName: 'showIcon', type: 'BOOLEAN', target: { kind: 'ROLE', role: 'icon' } },
+    { propName: 'label', type: 'TEXT', target: { kind: 'ROLE', role: 'label' } },
+    { propName: 'icon', type: 'INSTANCE_SWAP', target: { kind: 'ROLE', role: 'icon' } },
+  ],
+  baseStyle: {
+    textStyle: {
+      fontFamily: 'Inter',
+      fontSize: 12,
+      lineHeight: 16,
+      fontWeight: 600,
+    },
+  },
+};
+
 /**
  * Template definitions exposed to the UI.
  */
@@ -603,6 +808,12 @@ export const templates: TemplateSpec[] = [
     description: 'Switch control with boolean state and label.',
     spec: toggleSpec,
   },
+  {
+    id: 'badge',
+    title: 'Badge',
+    description: 'Status pill with tone, size and appearance variants.',
+    spec: badgeSpec,
+  },
 ];
 
 /**
@@ -614,5 +825,5 @@ export function createSpecFromTemplate(templateId: string): ComponentSpec {
   if (!template) {
     throw new Error(`Unknown template "${templateId}"`);
   }
-  return deepCloneSpec(template.spec);
+  return { ...deepCloneSpec(template.spec), specVersion: CURRENT_SPEC_VERSION };
 }
@@ -22,8 +22,14 @@ export interface ElementSpec {
   type: NodeKind;
   role?: string;
   defaultVisible?: boolean;
+  /**
+   * Limits the element to the variants matching the selector; it is hidden in
+   * all other variants, regardless of boolean props and state styles.
+   */
+  visibleWhen?: VariantSelector;
   layout?: AutoLayoutSpec;
   size?: SizeSpec;
+  position?: AbsolutePositionSpec;
   fills?: FillSpec[];
   strokes?: StrokeSpec[];
   cornerRadius?: CornerRadiusSpec;
@@ -37,11 +43,33 @@ export interface TextContentSpec {
   placeholder?: string;
 }
 
+/**
+ * Auto layout of a frame. `alignment` applies to the main axis and, unless
+ * `counterAlignment` is set, also across it (centred for space-between).
+ * Wrapping and baseline alignment are only supported by horizontal layouts.
+ */
 export interface AutoLayoutSpec {
   direction: 'HORIZONTAL' | 'VERTICAL';
   gap: number;
   padding: FourSideSize | number;
   alignment: 'START' | 'CENTER' | 'END' | 'SPACE_BETWEEN';
+  counterAlignment?: 'START' | 'CENTER' | 'END' | 'BASELINE';
+  wrap?: boolean;
+  /** Spacing between wrapped rows; defaults to `gap`. */
+  rowGap?: number;
+}
+
+/**
+ * Takes an element out of its parent's auto layout and pins it to the
+ * parent's edges, with offsets in pixels like CSS `top`/`right`/`bottom`/
+ * `left`. Offsets on opposite sides stretch the element between them; without
+ * any offset on an axis it is pinned to the start.
+ */
+export interface AbsolutePositionSpec {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
 }
 
 export type CornerRadiusSpec = number | {
@@ -53,24 +81,117 @@ export type CornerRadiusSpec = number | {
 
 export type FourSideSize = [number, number, number, number];
 
+/**
+ * How an element is sized along one axis: a fixed dimension, hugging its
+ * content (auto layout frames and text) or filling the space of its auto
+ * layout parent.
+ */
+export type SizingMode = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * Figma's text resizing behaviour: grow in both directions, grow in height
+ * with a fixed width, keep a fixed box, or a fixed box that truncates.
+ */
+export type TextAutoResize = 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'NONE' | 'TRUNCATE';
+
+/**
+ * Dimensions and sizing behaviour of an element. Without an explicit mode an
+ * axis is fixed when it has a width/height and hugs otherwise (auto layout
+ * frames and text only). `layoutGrow` and `layoutAlign` are the Figma
+ * properties behind fill and take precedence over it when set.
+ */
 export interface SizeSpec {
   width?: number;
   height?: number;
   minWidth?: number;
   minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  horizontalSizing?: SizingMode;
+  verticalSizing?: SizingMode;
+  layoutGrow?: number;
+  layoutAlign?: 'INHERIT' | 'STRETCH';
+  textAutoResize?: TextAutoResize;
+}
+
+/**
+ * Reference to a named entry of the spec's `styleTokens` library.
+ */
+export interface TokenRef {
+  token: string;
 }
 
-export interface FillSpec {
+export type ColorValue = string | TokenRef; // HEX, rgba string or colour token
+
+export type FillSpec = SolidFillSpec | GradientFillSpec | ImageFillSpec;
+
+export interface SolidFillSpec {
   type: 'SOLID';
-  color: string; // HEX or rgba string
+  color: ColorValue;
+  opacity?: number;
+}
+
+export type GradientType = 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR';
+
+/**
+ * Gradient fill. `angle` follows CSS: degrees clockwise from "to top", so 90
+ * runs left to right. Linear gradients default to 180 (top to bottom) and
+ * angular gradients to 0; radial gradients ignore it.
+ */
+export interface GradientFillSpec {
+  type: GradientType;
+  stops: GradientStopSpec[];
+  angle?: number;
+  opacity?: number;
+}
+
+export interface GradientStopSpec {
+  /** Position along the gradient between 0 and 1. */
+  position: number;
+  color: ColorValue;
+  opacity?: number;
+}
+
+export type ImageScaleMode = 'FILL' | 'FIT' | 'CROP' | 'TILE';
+
+/**
+ * Image fill embedded in the spec as base64-encoded PNG, JPEG or GIF data.
+ */
+export interface ImageFillSpec {
+  type: 'IMAGE';
+  imageBase64: string;
+  scaleMode: ImageScaleMode;
   opacity?: number;
 }
 
+/**
+ * Solid stroke. Figma applies weight, alignment and dashes to the node rather
+ * than to each paint, so when a node has several strokes these properties are
+ * taken from the topmost (last) one.
+ */
 export interface StrokeSpec {
   type: 'SOLID';
-  color: string;
+  color: ColorValue;
   weight: number;
   opacity?: number;
+  /** Where the stroke is drawn relative to the node's edge. Defaults to `INSIDE`. */
+  strokeAlign?: StrokeAlign;
+  /**
+   * Individual weights per side, e.g. `{ top: 0, right: 0, bottom: 2, left: 0 }`
+   * for an input underline. Overrides `weight` on frames and rectangles.
+   */
+  sideWeights?: StrokeSideWeights;
+  /** Alternating dash and gap lengths in pixels; empty or omitted is solid. */
+  dashPattern?: number[];
+}
+
+export type StrokeAlign = 'INSIDE' | 'CENTER' | 'OUTSIDE';
+
+export interface StrokeSideWeights {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 
 export type EffectSpec =
@@ -79,7 +200,7 @@ export type EffectSpec =
       offset: { x: number; y: number };
       radius: number;
       spread?: number;
-      color: string;
+      color: ColorValue;
       opacity?: number;
     }
   | {
@@ -95,6 +216,8 @@ export interface TextStyleSpec {
   letterSpacing?: number;
 }
 
+export type TextStyleValue = TextStyleSpec | TokenRef;
+
 export interface AutoLayoutOverrideSpec {
   padding?: FourSideSize | number;
   gap?: number;
@@ -111,7 +234,7 @@ export interface StyleSpec {
   strokes?: StrokeSpec[];
   cornerRadius?: CornerRadiusSpec;
   effects?: EffectSpec[];
-  textStyle?: TextStyleSpec;
+  textStyle?: TextStyleValue;
   layout?: LayoutOverrideSpec;
   elements?: Record<string, ElementStyleSpec>;
 }
@@ -121,8 +244,10 @@ export interface ElementStyleSpec {
   strokes?: StrokeSpec[];
   cornerRadius?: CornerRadiusSpec;
   effects?: EffectSpec[];
-  textStyle?: TextStyleSpec;
+  textStyle?: TextStyleValue;
   visible?: boolean;
+  /** Size and auto layout overrides; sizes merge into the element's own. */
+  layout?: LayoutOverrideSpec;
 }
 
 export interface VariantGroupSpec {
@@ -168,11 +293,27 @@ export interface StateSpec {
   name: string;
   label?: string;
   appliesTo?: VariantSelector;
+  /**
+   * Matching states are applied in ascending priority so higher priorities
+   * win; states with the same priority apply in spec order. Defaults to 0.
+   */
+  priority?: number;
   style: StyleSpec;
   propValues?: PropValueMap;
+  /**
+   * Text content of TEXT elements in the matching variants, keyed by element
+   * id or role like `style.elements`. Later states override earlier ones.
+   */
+  textOverrides?: Record<string, string>;
 }
 
-export type VariantSelector = Record<string, string>;
+/**
+ * Condition on one variant group: a single value, any of several values, any
+ * value except the given ones, or `'*'` for any value.
+ */
+export type VariantSelectorValue = string | string[] | { not: string | string[] };
+
+export type VariantSelector = Record<string, VariantSelectorValue>;
 
 export interface PropBinding {
   propName: string;
@@ -195,15 +336,42 @@ export interface DesignTokensRef {
   textStyles?: Record<string, TextStyleSpec>;
 }
 
+/**
+ * Explicit links between spec values and local Figma variables or styles.
+ * Keys are token names (or literal colours), values are variable/style names.
+ */
+export interface FigmaStyleMapping {
+  colors?: Record<string, string>;
+  textStyles?: Record<string, string>;
+}
+
 export interface ComponentSpec {
+  /**
+   * Version of the spec format. Older specs are upgraded on import and load
+   * by the migrations in `utils/schema.ts`.
+   */
+  specVersion?: number;
+  /**
+   * Stable identifier linking the spec to the component set generated from it.
+   * Assigned on first creation and used to update that set in place afterwards.
+   */
+  id?: string;
   name: string;
   template: TemplateId;
   structure: ElementSpec;
   variantGroups: VariantGroupSpec[];
+  /**
+   * When set, only variant combinations matching one of these selectors are
+   * generated.
+   */
+  includedCombinations?: VariantSelector[];
+  /** Variant combinations matching any of these selectors are never generated. */
+  excludedCombinations?: VariantSelector[];
   states: StateSpec[];
   propDefinitions: PropDefinitions;
   bindings: PropBinding[];
   styleTokens?: DesignTokensRef;
+  figmaStyles?: FigmaStyleMapping;
   baseStyle?: StyleSpec;
 }
 
@@ -219,12 +387,21 @@ export interface ValidationIssue {
   message: string;
   hint?: string;
   path?: string;
+  /** Changes that resolve the issue when applied together. */
+  fixes?: AutoFixSuggestion[];
 }
 
 export interface AutoFixSuggestion {
   code: string;
+  /** The value, key or item the fix replaces or removes. */
   target: string;
-  suggestion: string;
+  /** The replacement; fixes without one remove the target instead. */
+  suggestion?: string;
+  /**
+   * Location of the value the fix replaces, as in `ValidationIssue.path`.
+   * Fixes without one identify their target by `target` alone.
+   */
+  path?: string;
 }
 
 export interface ValidationResult {
@@ -234,16 +411,50 @@ export interface ValidationResult {
   autoFixes?: AutoFixSuggestion[];
 }
 
+export interface StyleBindingEntry {
+  kind: 'fill' | 'stroke' | 'text';
+  /** Token name or literal value as written in the spec. */
+  value: string;
+  /** Name of the variable or style the value was bound to. */
+  target?: string;
+  via?: 'VARIABLE' | 'PAINT_STYLE' | 'TEXT_STYLE';
+}
+
+/**
+ * Summary of which spec values were bound to Figma variables/styles during
+ * generation and which were written as literal values.
+ */
+export interface StyleBindingReport {
+  bound: StyleBindingEntry[];
+  literals: StyleBindingEntry[];
+}
+
 export interface GenerateOptions {
   confirmLargeVariantCount?: boolean;
 }
 
+/**
+ * Summary of a spec saved in the document, used to list specs without loading
+ * all of them.
+ */
+export interface SpecLibraryEntry {
+  id: string;
+  name: string;
+  template: TemplateId;
+  updatedAt: number;
+  /** Id of the generated component set holding the spec, once it exists. */
+  nodeId?: string;
+}
+
 export type PluginToUIMessage =
-  | { type: 'spec-loaded'; spec: ComponentSpec | null }
+  | { type: 'spec-loaded'; spec: ComponentSpec | null; issues?: ValidationResult; source?: 'selection' | 'draft' }
+  | { type: 'library-list'; entries: SpecLibraryEntry[]; legacyEntries?: SpecLibraryEntry[] }
   | { type: 'save-success'; spec: ComponentSpec }
   | { type: 'save-error'; error: string }
-  | { type: 'create-success'; componentId: string; setId?: string }
+  | { type: 'create-success'; componentId: string; setId?: string; specId: string; updated: boolean; styleReport: StyleBindingReport }
   | { type: 'create-error'; error: string }
+  | { type: 'capture-success'; spec: ComponentSpec }
+  | { type: 'capture-error'; error: string }
   | { type: 'validation-result'; result: ValidationResult }
   | { type: 'theme-change'; theme: ThemeName };
 
@@ -251,7 +462,15 @@ export type UIToPluginMessage =
   | { type: 'ui-ready' }
   | { type: 'request-save'; spec: ComponentSpec }
   | { type: 'request-load' }
+  | { type: 'update-draft'; spec: ComponentSpec }
+  | { type: 'request-list' }
+  | { type: 'request-open'; id: string }
+  | { type: 'request-rename'; id: string; name: string }
+  | { type: 'request-duplicate'; id: string }
+  | { type: 'request-delete'; id: string }
+  | { type: 'request-import-legacy'; id: string }
   | { type: 'request-create'; spec: ComponentSpec; options?: GenerateOptions }
+  | { type: 'request-capture' }
   | { type: 'notify-theme'; theme: ThemeName };
 
 export interface VariantCombination {
@@ -262,6 +481,8 @@ export interface GeneratedComponentResult {
   mainComponent: ComponentNode;
   componentSet?: ComponentSetNode;
   allComponents: ComponentNode[];
+  updated: boolean;
+  styleReport: StyleBindingReport;
 }
 
 export type PreviewSelection = {
@@ -1,19 +1,93 @@
 import './styles.css';
 import {
+  AutoFixSuggestion,
+  AutoLayoutSpec,
+  ColorValue,
   ComponentSpec,
+  DesignTokensRef,
   ElementSpec,
+  ElementStyleSpec,
+  FigmaStyleMapping,
+  NodeKind,
   PluginToUIMessage,
   PropBinding,
   PropDefinitions,
+  SizeSpec,
+  SpecLibraryEntry,
   StateSpec,
+  StrokeAlign,
+  StrokeSpec,
+  StyleBindingEntry,
+  StyleBindingReport,
   TemplateId,
+  TextStyleSpec,
+  TextStyleValue,
   ThemeName,
   UIToPluginMessage,
+  ValidationIssue,
   ValidationResult,
   VariantCombination,
+  VariantGroupSpec,
+  VariantSelector,
 } from './types';
 import { createSpecFromTemplate, templates } from './templates';
-import { deepCloneSpec, validateSpec, variantMatchesSelector } from './utils/spec';
+import { CssDeclarations, fillsToBackground, positionToCss, sizeToCss, strokesToCss } from './utils/css';
+import { importDtcgTokens, isDtcgDocument } from './utils/dtcg';
+import {
+  createHistory,
+  HistoryChange,
+  HistoryState,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from './utils/history';
+import { CounterAlignment, getCounterAlignment, isWrapping, mergeAutoLayoutOverride } from './utils/layout';
+import { diffValues, ValueChange } from './utils/diff';
+import { describeFill, getPrimaryFillColor } from './utils/paints';
+import { generateReactComponent, toComponentName } from './utils/react';
+import { CURRENT_SPEC_VERSION, parseSpec } from './utils/schema';
+import { LayoutDirection } from './utils/sizing';
+import {
+  applyAutoFixes,
+  deepCloneSpec,
+  describeAutoFix,
+  describeCombination,
+  describeSelector,
+  findClosestCombination,
+  flattenElements,
+  formatSelectorValue,
+  getSpecCombinations,
+  getTextOverride,
+  isCombinationIncluded,
+  parseSelectorValue,
+  resolveStatesForCombination,
+  resolveTextOverride,
+  selectorValueMatches,
+  validateSpec,
+  variantMatchesSelector,
+} from './utils/spec';
+import {
+  addChildElement,
+  canHaveChildren,
+  ELEMENT_KINDS,
+  findParentElement,
+  indentElement,
+  moveElement,
+  outdentElement,
+  removeElement,
+  setElementId,
+  setElementRole,
+  wrapElementInFrame,
+} from './utils/structure';
+import { generateVariantStylesheet } from './utils/stylesheet';
+import {
+  formatColorValue,
+  isTokenRef,
+  parseColorValue,
+  renameToken,
+  resolveColor,
+  resolveTextStyle,
+} from './utils/tokens';
 
 type MessagePort = typeof parent;
 
@@ -25,6 +99,21 @@ interface AppState {
   activeVariants: VariantCombination;
   theme: ThemeName;
   largeVariantConfirmed: boolean;
+  styleReport: StyleBindingReport | null;
+  library: LibraryState;
+  history: HistoryState<ComponentSpec>;
+  /** Fixes shown in the fix dialog, applied when it is confirmed. */
+  pendingFixes: AutoFixSuggestion[];
+  /** Whether the spec has edits that are not saved to the file yet. */
+  hasUnsavedChanges: boolean;
+}
+
+interface LibraryState {
+  entries: SpecLibraryEntry[];
+  /** Specs saved on this device by older versions, not yet in the file. */
+  legacyEntries: SpecLibraryEntry[];
+  renamingId: string | null;
+  confirmDeleteId: string | null;
 }
 
 const state: AppState = {
@@ -35,6 +124,11 @@ const state: AppState = {
   activeVariants: {},
   theme: 'light',
   largeVariantConfirmed: false,
+  styleReport: null,
+  library: { entries: [], legacyEntries: [], renamingId: null, confirmDeleteId: null },
+  history: createHistory(),
+  pendingFixes: [],
+  hasUnsavedChanges: false,
 };
 
 const dom = {
@@ -44,19 +138,35 @@ const dom = {
   stateSelect: document.getElementById('state-select') as HTMLSelectElement,
   variantToggleContainer: document.getElementById('variant-toggle-container') as HTMLDivElement,
   inspector: document.getElementById('inspector-content') as HTMLDivElement,
+  captureButton: document.getElementById('capture-selection') as HTMLButtonElement,
   importButton: document.getElementById('import-spec') as HTMLButtonElement,
+  libraryList: document.getElementById('library-list') as HTMLUListElement,
+  historyList: document.getElementById('history-list') as HTMLOListElement,
+  undoButton: document.getElementById('undo') as HTMLButtonElement,
+  redoButton: document.getElementById('redo') as HTMLButtonElement,
   exportButton: document.getElementById('export-spec') as HTMLButtonElement,
+  exportReactButton: document.getElementById('export-react') as HTMLButtonElement,
+  exportCssButton: document.getElementById('export-css') as HTMLButtonElement,
   saveButton: document.getElementById('save-spec') as HTMLButtonElement,
   createButton: document.getElementById('create-components') as HTMLButtonElement,
   importDialog: document.getElementById('import-dialog') as HTMLDialogElement,
   importTextarea: document.getElementById('import-textarea') as HTMLTextAreaElement,
+  importFile: document.getElementById('import-file') as HTMLInputElement,
+  importIssues: document.getElementById('import-issues') as HTMLDivElement,
   confirmImport: document.getElementById('confirm-import') as HTMLButtonElement,
+  fixDialog: document.getElementById('fix-dialog') as HTMLDialogElement,
+  fixList: document.getElementById('fix-list') as HTMLUListElement,
+  fixChanges: document.getElementById('fix-changes') as HTMLDivElement,
+  confirmFix: document.getElementById('confirm-fix') as HTMLButtonElement,
   toggleTheme: document.getElementById('toggle-theme') as HTMLButtonElement,
   previewHint: document.getElementById('preview-hint') as HTMLDivElement,
 };
 
 const port: MessagePort = parent;
 
+const DRAFT_DELAY_MS = 500;
+let draftTimer: number | undefined;
+
 init();
 
 function init() {
@@ -77,11 +187,88 @@ function bindEventListeners() {
     sendValidation();
   });
 
+  dom.libraryList.addEventListener('click', (event) => {
+    const target = (event.target as HTMLElement).closest<HTMLElement>('[data-library-action]');
+    const legacyId = target?.closest<HTMLElement>('[data-legacy-id]')?.dataset.legacyId;
+    if (target && legacyId) {
+      if (confirmDiscardChanges()) postMessage({ type: 'request-import-legacy', id: legacyId });
+      return;
+    }
+    const id = target?.closest<HTMLElement>('[data-spec-id]')?.dataset.specId;
+    if (!target || !id) return;
+    const action = target.dataset.libraryAction;
+    if (action === 'open') {
+      if (confirmDiscardChanges()) postMessage({ type: 'request-open', id });
+    } else if (action === 'rename') {
+      state.library.renamingId = id;
+      renderLibrary();
+      dom.libraryList.querySelector<HTMLInputElement>('input[data-library-rename]')?.select();
+    } else if (action === 'duplicate') {
+      postMessage({ type: 'request-duplicate', id });
+    } else if (action === 'delete') {
+      if (state.library.confirmDeleteId !== id) {
+        state.library.confirmDeleteId = id;
+        renderLibrary();
+        return;
+      }
+      state.library.confirmDeleteId = null;
+      postMessage({ type: 'request-delete', id });
+    }
+  });
+
+  dom.libraryList.addEventListener('keydown', (event) => {
+    const input = event.target as HTMLInputElement;
+    if (!input.matches('[data-library-rename]')) return;
+    if (event.key === 'Enter') {
+      const id = state.library.renamingId!;
+      const name = input.value.trim();
+      state.library.renamingId = null;
+      if (name) {
+        postMessage({ type: 'request-rename', id, name });
+        if (state.spec.id === id) {
+          updateSpec((draft) => {
+            draft.name = name;
+          }, { label: 'Renamed component' });
+          dom.componentName.value = name;
+        }
+      }
+      renderLibrary();
+    } else if (event.key === 'Escape') {
+      state.library.renamingId = null;
+      renderLibrary();
+    }
+  });
+
+  dom.libraryList.addEventListener('focusout', (event) => {
+    if ((event.target as HTMLElement).matches('[data-library-rename]') && state.library.renamingId) {
+      state.library.renamingId = null;
+      renderLibrary();
+    }
+  });
+
+  dom.undoButton.addEventListener('click', () => stepHistory(-1));
+  dom.redoButton.addEventListener('click', () => stepHistory(1));
+
+  dom.historyList.addEventListener('click', (event) => {
+    const target = (event.target as HTMLElement).closest<HTMLElement>('[data-history-steps]');
+    if (target) stepHistory(Number(target.dataset.historySteps));
+  });
+
+  document.addEventListener('keydown', (event) => {
+    if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+    const key = event.key.toLowerCase();
+    if (key !== 'z' && key !== 'y') return;
+    // Text areas and dialogs keep the browser's own undo.
+    if ((event.target as HTMLElement).closest('textarea, dialog')) return;
+    event.preventDefault();
+    stepHistory(key === 'y' || event.shiftKey ? 1 : -1);
+  });
+
   dom.componentName.addEventListener('input', (event) => {
     const value = (event.target as HTMLInputElement).value;
     updateSpec((draft) => {
       draft.name = value;
-    });
+    }, { label: 'Renamed component', coalesceKey: 'component-name' });
   });
 
   dom.previewCanvas.addEventListener('click', (event) => {
@@ -100,9 +287,8 @@ function bindEventListeners() {
     state.selection.stateIndex = index >= 0 ? index : 0;
     const selector = state.spec.states[state.selection.stateIndex]?.appliesTo;
     if (selector) {
-      Object.entries(selector).forEach(([group, groupValue]) => {
-        state.activeVariants[group] = groupValue;
-      });
+      alignVariantsWithSelector(state.activeVariants, selector, state.spec.variantGroups);
+      keepActiveVariantsIncluded();
     }
     render();
   });
@@ -111,6 +297,7 @@ function bindEventListeners() {
     const target = event.target as HTMLSelectElement;
     if (target && target.dataset.group) {
       state.activeVariants[target.dataset.group] = target.value;
+      keepActiveVariantsIncluded(target.dataset.group);
       render();
     }
   });
@@ -137,30 +324,77 @@ function bindEventListeners() {
     });
   });
 
+  dom.captureButton.addEventListener('click', () => {
+    postMessage({ type: 'request-capture' });
+  });
+
   dom.importButton.addEventListener('click', () => {
     dom.importTextarea.value = JSON.stringify(state.spec, null, 2);
+    renderImportIssues(null);
     dom.importDialog.showModal();
   });
 
-  dom.confirmImport.addEventListener('click', () => {
+  dom.importFile.addEventListener('change', async () => {
+    const file = dom.importFile.files?.[0];
+    if (!file) return;
+    dom.importTextarea.value = await file.text();
+    dom.importFile.value = '';
+  });
+
+  dom.confirmImport.addEventListener('click', (event) => {
+    // Keep the dialog open until the content has been accepted.
+    event.preventDefault();
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(dom.importTextarea.value) as ComponentSpec;
-      setSpec(parsed, parsed.template);
-      sendValidation();
-      dom.importDialog.close();
+      parsed = JSON.parse(dom.importTextarea.value);
     } catch (error) {
       alert('Invalid JSON. Please fix the content and try again.');
+      return;
+    }
+    if (isDtcgDocument(parsed)) {
+      importDesignTokens(parsed as Record<string, unknown>);
+    } else {
+      const { spec, result, migratedFrom } = parseSpec(parsed);
+      if (!spec) {
+        renderImportIssues(result);
+        return;
+      }
+      setSpec(spec, spec.template);
+      sendValidation();
+      appendIssues(result);
+      if (migratedFrom) {
+        showHint(`Specification upgraded from version ${migratedFrom} to ${CURRENT_SPEC_VERSION}.`);
+      }
     }
+    renderImportIssues(null);
+    dom.importDialog.close();
+  });
+
+  dom.confirmFix.addEventListener('click', () => {
+    const fixes = state.pendingFixes;
+    state.pendingFixes = [];
+    if (!fixes.length) return;
+    updateSpec(
+      (draft) => {
+        Object.assign(draft, applyAutoFixes(draft, fixes));
+      },
+      { label: fixes.length === 1 ? describeAutoFix(fixes[0]) : `Applied ${fixes.length} fixes` },
+    );
   });
 
   dom.exportButton.addEventListener('click', () => {
-    const blob = new Blob([JSON.stringify(state.spec, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${state.spec.name || 'component'}-spec.json`;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadFile(`${state.spec.name || 'component'}-spec.json`, JSON.stringify(state.spec, null, 2), 'application/json');
+  });
+
+  dom.exportReactButton.addEventListener('click', () => {
+    generateReactComponent(state.spec).forEach((file) => {
+      downloadFile(file.path, file.contents, file.path.endsWith('.css') ? 'text/css' : 'text/plain');
+    });
+    showHint('React component and stylesheet exported.');
+  });
+
+  dom.exportCssButton.addEventListener('click', () => {
+    downloadFile(`${toComponentName(state.spec.name)}.variants.css`, generateVariantStylesheet(state.spec), 'text/css');
   });
 
   dom.toggleTheme.addEventListener('click', () => {
@@ -179,21 +413,50 @@ function bindEventListeners() {
 function handlePluginMessage(message: PluginToUIMessage) {
   switch (message.type) {
     case 'spec-loaded':
+      if (message.source === 'selection' && (!message.spec || message.spec.id === state.spec.id)) break;
       setSpec(message.spec ?? createSpecFromTemplate('button'), message.spec?.template ?? 'button');
+      if (message.issues) {
+        appendIssues(message.issues);
+        if (!message.spec) {
+          showHint('The stored specification is invalid and was replaced by the default template.', true);
+        }
+      } else if (message.source === 'selection') {
+        showHint('Loaded the specification of the selected component set.');
+      } else if (message.source === 'draft') {
+        state.hasUnsavedChanges = true;
+        showHint('Restored your unsaved draft.');
+      }
+      break;
+    case 'library-list':
+      state.library.entries = message.entries;
+      state.library.legacyEntries = message.legacyEntries ?? [];
+      renderLibrary();
       break;
     case 'save-success':
-      setSpec(message.spec, message.spec.template);
+      setSpec(message.spec, message.spec.template, { keepHistory: true });
       showHint('Specification saved to this file.');
       break;
     case 'save-error':
       showHint(message.error, true);
       break;
     case 'create-success':
-      showHint('Component set created on the canvas.');
+      state.spec.id = message.specId;
+      state.hasUnsavedChanges = false;
+      state.styleReport = message.styleReport;
+      renderStyleReport();
+      showHint(message.updated ? 'Component set updated in place.' : 'Component set created on the canvas.');
       break;
     case 'create-error':
       showHint(message.error, true);
       break;
+    case 'capture-success':
+      setSpec(message.spec, message.spec.template);
+      sendValidation();
+      showHint(`Captured "${message.spec.name}" from the selected component set.`);
+      break;
+    case 'capture-error':
+      showHint(message.error, true);
+      break;
     case 'validation-result':
       state.validation = message.result;
       renderValidation();
@@ -214,9 +477,17 @@ function render() {
   renderStateSelector();
   renderInspector();
   renderValidation();
+  renderStyleReport();
+  renderLibrary();
+  renderHistory();
 }
 
-function setSpec(spec: ComponentSpec, templateId: TemplateId) {
+/**
+ * Replaces the edited spec. The undo history starts over unless
+ * `keepHistory` is set, e.g. when the plugin echoes back a saved spec.
+ */
+function setSpec(spec: ComponentSpec, templateId: TemplateId, { keepHistory = false } = {}) {
+  if (!keepHistory) state.history = createHistory();
   state.spec = deepCloneSpec(spec);
   state.templateId = templateId;
   state.selection = { elementId: null, stateIndex: 0 };
@@ -225,16 +496,148 @@ function setSpec(spec: ComponentSpec, templateId: TemplateId) {
   dom.componentName.value = state.spec.name ?? '';
   state.validation = runValidation();
   state.largeVariantConfirmed = false;
+  state.hasUnsavedChanges = false;
   render();
 }
 
-function updateSpec(mutator: (draft: ComponentSpec) => void) {
+/**
+ * Applies an edit to a copy of the spec and records the previous spec in the
+ * undo history under `change.label`.
+ */
+function updateSpec(mutator: (draft: ComponentSpec) => void, change: HistoryChange) {
   const draft = deepCloneSpec(state.spec);
   mutator(draft);
+  state.history = recordHistory(state.history, state.spec, change, Date.now());
   state.spec = draft;
+  keepActiveVariantsIncluded();
   state.validation = runValidation();
   state.largeVariantConfirmed = false;
   render();
+  scheduleDraftUpdate();
+}
+
+/**
+ * Moves through the history: negative steps undo, positive steps redo.
+ */
+function stepHistory(steps: number) {
+  let label: string | null = null;
+  for (let count = 0; count < Math.abs(steps); count += 1) {
+    const step = steps < 0 ? undoHistory(state.history, state.spec) : redoHistory(state.history, state.spec);
+    if (!step) break;
+    state.history = step.history;
+    state.spec = step.value;
+    label = step.label;
+  }
+  if (!label) return;
+  if (state.selection.elementId && !findElementById(state.spec.structure, state.selection.elementId)) {
+    state.selection.elementId = null;
+  }
+  state.activeVariants = computeDefaultVariants(state.spec);
+  dom.componentName.value = state.spec.name ?? '';
+  state.validation = runValidation();
+  state.largeVariantConfirmed = false;
+  render();
+  scheduleDraftUpdate();
+  showHint(`${steps < 0 ? 'Undid' : 'Redid'}: ${label}`);
+}
+
+/**
+ * Asks before a saved spec replaces the open one while it has unsaved edits.
+ */
+function confirmDiscardChanges(): boolean {
+  if (!state.hasUnsavedChanges) return true;
+  return window.confirm(`Discard the unsaved changes to ${state.spec.name || 'this specification'}?`);
+}
+
+function describeState(index: number): string {
+  const stateSpec = state.spec.states[index];
+  return stateSpec ? stateSpec.label || stateSpec.name : 'state';
+}
+
+const STYLE_FIELD_LABELS: Record<string, string> = {
+  'style-fill': 'fill',
+  'style-stroke': 'stroke',
+  'style-stroke-weight': 'stroke weight',
+  'style-stroke-align': 'stroke alignment',
+  'style-dash': 'dash pattern',
+  'style-radius': 'corner radius',
+  'style-text-token': 'text style',
+  'style-font-family': 'font family',
+  'style-font-weight': 'font weight',
+  'style-font-size': 'font size',
+  'style-line-height': 'line height',
+  'style-gap': 'gap',
+  'style-padding': 'padding',
+};
+
+/**
+ * Describes a style edit in the inspector, e.g. "Changed hover → Label fill".
+ * Typing into the same field of the same state and element is coalesced.
+ */
+function describeStyleChange(action: string): HistoryChange {
+  const { stateIndex, elementId } = state.selection;
+  const element = findElementById(state.spec.structure, elementId) ?? state.spec.structure;
+  return {
+    label: `Changed ${describeState(stateIndex)} → ${element.name} ${STYLE_FIELD_LABELS[action] ?? 'style'}`,
+    coalesceKey: `${action}:${stateIndex}:${element.id}`,
+  };
+}
+
+/**
+ * Sends the edited spec to the plugin, which caches it per user so unsaved
+ * changes survive closing the plugin. Rapid edits are coalesced.
+ */
+function scheduleDraftUpdate() {
+  state.hasUnsavedChanges = true;
+  window.clearTimeout(draftTimer);
+  draftTimer = window.setTimeout(() => {
+    postMessage({ type: 'update-draft', spec: state.spec });
+  }, DRAFT_DELAY_MS);
+}
+
+function importDesignTokens(document: Record<string, unknown>) {
+  const { tokens, warnings } = importDtcgTokens(document);
+  const colorCount = Object.keys(tokens.colors ?? {}).length;
+  const textStyleCount = Object.keys(tokens.textStyles ?? {}).length;
+  updateSpec((draft) => {
+    const library = draft.styleTokens ?? {};
+    draft.styleTokens = {
+      ...library,
+      colors: { ...(library.colors ?? {}), ...(tokens.colors ?? {}) },
+      textStyles: { ...(library.textStyles ?? {}), ...(tokens.textStyles ?? {}) },
+    };
+  }, { label: 'Imported design tokens' });
+  appendIssues({ ok: true, errors: [], warnings });
+  showHint(
+    `Imported ${colorCount} colour and ${textStyleCount} text style tokens${
+      warnings.length ? ` with ${warnings.length} warning${warnings.length === 1 ? '' : 's'}` : ''
+    }.`,
+  );
+}
+
+/**
+ * Shows issues that do not come from `validateSpec` (import and load checks)
+ * alongside the current validation result until the next edit.
+ */
+function appendIssues(issues: ValidationResult) {
+  if (!state.validation || (!issues.errors.length && !issues.warnings.length)) return;
+  state.validation.errors.push(...issues.errors);
+  state.validation.warnings.push(...issues.warnings);
+  renderValidation();
+}
+
+function renderImportIssues(result: ValidationResult | null) {
+  if (!result) {
+    dom.importIssues.innerHTML = '';
+    return;
+  }
+  const shown = result.errors.slice(0, 8);
+  dom.importIssues.innerHTML = [
+    ...shown.map((issue) => `<div class="validation-item error">${issue.message}</div>`),
+    result.errors.length > shown.length
+      ? `<div class="validation-item">…and ${result.errors.length - shown.length} more.</div>`
+      : '',
+  ].join('');
 }
 
 function runValidation(): ValidationResult {
@@ -253,6 +656,82 @@ function ensureSelectionBounds() {
   }
 }
 
+function renderLibrary() {
+  const { entries, legacyEntries, renamingId, confirmDeleteId } = state.library;
+  const legacy = legacyEntries.length
+    ? [
+        '<li class="library-section muted">Saved on this device</li>',
+        ...legacyEntries.map((entry) => {
+          const name = escapeHtml(entry.name);
+          return `
+        <li class="library-item" data-legacy-id="${escapeHtml(entry.id)}">
+          <span class="library-open">${name}</span>
+          <span class="library-meta muted">${entry.template ?? 'custom'}</span>
+          <div class="row-actions">
+            <button class="ghost" data-library-action="import" title="Import ${name} into this file">Import</button>
+          </div>
+        </li>`;
+        }),
+      ].join('')
+    : '';
+  if (!entries.length) {
+    dom.libraryList.innerHTML = `<li class="library-empty muted">Saved specs appear here.</li>${legacy}`;
+    return;
+  }
+  dom.libraryList.innerHTML = entries
+    .map((entry) => {
+      const active = entry.id === state.spec.id ? 'active' : '';
+      const name = escapeHtml(entry.name);
+      const label =
+        entry.id === renamingId
+          ? `<input type="text" value="${name}" data-library-rename aria-label="Rename ${name}" />`
+          : `<button class="library-open" data-library-action="open" title="Open ${name}">${name}</button>`;
+      return `
+        <li class="library-item ${active}" data-spec-id="${entry.id}">
+          ${label}
+          <span class="library-meta muted">${entry.template} · ${new Date(entry.updatedAt).toLocaleDateString()}</span>
+          <div class="row-actions">
+            <button class="ghost" data-library-action="rename">Rename</button>
+            <button class="ghost" data-library-action="duplicate">Duplicate</button>
+            <button class="ghost" data-library-action="delete">${entry.id === confirmDeleteId ? 'Confirm' : 'Delete'}</button>
+          </div>
+        </li>`;
+    })
+    .join('') + legacy;
+}
+
+/**
+ * Lists the last edits, most recent first, followed by undone edits that can
+ * still be redone. Clicking an entry moves the spec to the point after it.
+ */
+function renderHistory() {
+  const { past, future } = state.history;
+  dom.undoButton.disabled = !past.length;
+  dom.redoButton.disabled = !future.length;
+  dom.undoButton.title = past.length ? `Undo ${past[past.length - 1].label}` : 'Nothing to undo';
+  dom.redoButton.title = future.length ? `Redo ${future[future.length - 1].label}` : 'Nothing to redo';
+  if (!past.length && !future.length) {
+    dom.historyList.innerHTML = '<li class="history-empty muted">Edits appear here.</li>';
+    return;
+  }
+  const redoable = future
+    .map((entry, index) => ({ entry, steps: future.length - index }))
+    .map(
+      ({ entry, steps }) =>
+        `<li><button class="history-item undone" data-history-steps="${steps}">${escapeHtml(entry.label)}</button></li>`,
+    );
+  const done = past
+    .map((entry, index) => ({ entry, steps: index + 1 - past.length }))
+    .reverse()
+    .map(
+      ({ entry, steps }) =>
+        `<li><button class="history-item ${steps === 0 ? 'current' : ''}" data-history-steps="${steps}">${escapeHtml(
+          entry.label,
+        )}</button></li>`,
+    );
+  dom.historyList.innerHTML = [...redoable, ...done].join('');
+}
+
 function renderTemplateOptions() {
   dom.templateSelect.innerHTML = templates
     .map((tpl) => `<option value="${tpl.id}">${tpl.title}</option>`)
@@ -272,6 +751,7 @@ function buildPreviewNode(
   activeStates: StateSpec[],
   props: PropValueCollection,
   isRoot = false,
+  parentDirection?: LayoutDirection,
 ): HTMLElement {
   const elementType = element.type;
   let node: HTMLElement;
@@ -279,7 +759,9 @@ function buildPreviewNode(
     node = document.createElement('span');
     node.classList.add('preview-text');
     const binding = getBindingForElement(element, 'TEXT');
-    const text = binding ? props.text?.[binding.propName] ?? '' : element.text?.default ?? '';
+    const text = binding
+      ? props.text?.[binding.propName] ?? ''
+      : resolveTextOverride(activeStates, element) ?? element.text?.default ?? '';
     node.textContent = text || element.text?.placeholder || 'Text';
   } else {
     node = document.createElement('div');
@@ -291,12 +773,14 @@ function buildPreviewNode(
     node.classList.add('selected');
   }
 
-  applyPreviewStyles(node, element, activeStates, props, isRoot);
+  applyPreviewStyles(node, element, activeStates, props, isRoot, parentDirection);
 
   const boolBinding = getBindingForElement(element, 'BOOLEAN');
-  const visible = boolBinding
-    ? props.boolean?.[boolBinding.propName] ?? element.defaultVisible !== false
-    : element.defaultVisible !== false;
+  const visible =
+    variantMatchesSelector(state.activeVariants, element.visibleWhen) &&
+    (boolBinding
+      ? props.boolean?.[boolBinding.propName] ?? element.defaultVisible !== false
+      : element.defaultVisible !== false);
   node.style.display = visible ? node.style.display || 'flex' : 'none';
 
   if (elementType === 'ICON') {
@@ -305,7 +789,7 @@ function buildPreviewNode(
 
   if (element.children && element.children.length) {
     element.children.forEach((child) => {
-      const childNode = buildPreviewNode(child, activeStates, props);
+      const childNode = buildPreviewNode(child, activeStates, props, false, element.layout?.direction ?? 'HORIZONTAL');
       node.appendChild(childNode);
     });
   }
@@ -316,8 +800,7 @@ function buildPreviewNode(
 interface ComputedStyle {
   fill?: string;
   textColor?: string;
-  borderColor?: string;
-  borderWidth?: number;
+  stroke?: CssDeclarations;
   radius?: string;
   shadow?: string;
   textStyle?: {
@@ -335,11 +818,17 @@ function applyPreviewStyles(
   activeStates: StateSpec[],
   props: PropValueCollection,
   isRoot: boolean,
+  parentDirection?: LayoutDirection,
 ) {
   const style = createComputedStyle(element, null);
   if (isRoot && state.spec.baseStyle) {
     mergeComputedStyle(style, createComputedStyle(null, state.spec.baseStyle));
   }
+  const baseElements = state.spec.baseStyle?.elements;
+  const baseElementStyle = baseElements?.[element.id] ?? (element.role ? baseElements?.[element.role] : undefined);
+  if (baseElementStyle) {
+    mergeComputedStyle(style, createComputedStyle(null, baseElementStyle));
+  }
   activeStates.forEach((stateSpec) => {
     if (isRoot) {
       mergeComputedStyle(style, createComputedStyle(null, stateSpec.style));
@@ -353,11 +842,9 @@ function applyPreviewStyles(
   if (style.fill) node.style.background = style.fill;
   else node.style.background = 'transparent';
 
-  if (style.borderColor) {
-    node.style.border = `${style.borderWidth ?? 1}px solid ${style.borderColor}`;
-  } else {
-    node.style.border = 'none';
-  }
+  node.style.border = 'none';
+  node.style.outline = 'none';
+  Object.entries(style.stroke ?? {}).forEach(([property, value]) => node.style.setProperty(property, value));
 
   if (style.radius) node.style.borderRadius = style.radius;
 
@@ -382,15 +869,29 @@ function applyPreviewStyles(
     const layout = resolveLayoutForElement(element, activeStates, isRoot);
     node.style.display = 'flex';
     node.style.flexDirection = layout.direction === 'HORIZONTAL' ? 'row' : 'column';
-    node.style.alignItems = mapAlignment(layout.alignment);
+    node.style.alignItems = layout.counterAlignment
+      ? mapCounterAlignment(layout.counterAlignment)
+      : mapAlignment(layout.alignment);
     node.style.justifyContent = mapJustify(layout.alignment);
-    node.style.gap = `${layout.gap}px`;
+    node.style.gap = layout.wrap ? `${layout.rowGap}px ${layout.gap}px` : `${layout.gap}px`;
+    node.style.flexWrap = layout.wrap ? 'wrap' : 'nowrap';
+    node.style.alignContent = layout.wrap ? 'flex-start' : '';
+    node.style.position = element.children?.some((child) => child.position) ? 'relative' : '';
     const padding = Array.isArray(layout.padding)
       ? layout.padding
       : [layout.padding, layout.padding, layout.padding, layout.padding];
     node.style.padding = `${padding[0]}px ${padding[1]}px ${padding[2]}px ${padding[3]}px`;
   }
 
+  if (element.position && !isRoot) {
+    Object.entries(positionToCss(element.position)).forEach(([property, value]) => node.style.setProperty(property, value));
+  }
+
+  const size = resolveSizeForElement(element, activeStates, isRoot);
+  Object.entries(sizeToCss(size, { type: element.type, parentDirection })).forEach(([property, value]) =>
+    node.style.setProperty(property, value),
+  );
+
   const swapBinding = getBindingForElement(element, 'INSTANCE_SWAP');
   if (swapBinding) {
     node.setAttribute('data-swap-prop', swapBinding.propName);
@@ -401,12 +902,11 @@ function createComputedStyle(element: ElementSpec | null, style: any): ComputedS
   const result: ComputedStyle = {};
   const fills = style?.fills ?? element?.fills;
   if (fills && fills.length) {
-    result.fill = toCssColor(fills[0].color, fills[0].opacity);
+    result.fill = fillsToBackground(fills, state.spec.styleTokens);
   }
   const strokes = style?.strokes ?? element?.strokes;
   if (strokes && strokes.length) {
-    result.borderColor = toCssColor(strokes[0].color, strokes[0].opacity);
-    result.borderWidth = strokes[0].weight ?? 1;
+    result.stroke = strokesToCss(strokes, state.spec.styleTokens);
   }
   const corner = style?.cornerRadius ?? element?.cornerRadius;
   if (typeof corner === 'number') {
@@ -423,22 +923,25 @@ function createComputedStyle(element: ElementSpec | null, style: any): ComputedS
       }px ${toCssColor(effect.color, effect.opacity)}`;
     }
   }
-  if (element?.type === 'TEXT' && element.fills?.length) {
-    result.textColor = toCssColor(element.fills[0].color, element.fills[0].opacity);
+  const textFill = element?.type === 'TEXT' && element.fills?.length ? getPrimaryFillColor(element.fills[0]) : undefined;
+  if (textFill) {
+    result.textColor = toCssColor(textFill.color, textFill.opacity);
   }
-  if (style?.textStyle) {
-    result.textStyle = style.textStyle;
+  const textStyle = resolveTextStyle(style?.textStyle, state.spec.styleTokens);
+  if (textStyle) {
+    result.textStyle = textStyle;
   }
   if (style?.elements && element?.role) {
     const perElement = style.elements[element.role] || style.elements[element.id];
     if (perElement?.fills?.length) {
-      result.fill = toCssColor(perElement.fills[0].color, perElement.fills[0].opacity);
+      result.fill = fillsToBackground(perElement.fills, state.spec.styleTokens);
     }
     if (perElement?.strokes?.length) {
-      result.borderColor = toCssColor(perElement.strokes[0].color, perElement.strokes[0].opacity);
+      result.stroke = strokesToCss(perElement.strokes, state.spec.styleTokens);
     }
-    if (perElement?.textStyle) {
-      result.textStyle = perElement.textStyle;
+    const perElementTextStyle = resolveTextStyle(perElement?.textStyle, state.spec.styleTokens);
+    if (perElementTextStyle) {
+      result.textStyle = perElementTextStyle;
     }
   }
   return result;
@@ -452,42 +955,59 @@ function resolveLayoutForElement(
   element: ElementSpec,
   states: StateSpec[],
   isRoot: boolean,
-): { direction: 'HORIZONTAL' | 'VERTICAL'; gap: number; padding: number | [number, number, number, number]; alignment: 'start' | 'center' | 'end' | 'space-between' } {
-  const base = element.layout ?? {
+): {
+  direction: 'HORIZONTAL' | 'VERTICAL';
+  gap: number;
+  padding: number | [number, number, number, number];
+  alignment: 'start' | 'center' | 'end' | 'space-between';
+  counterAlignment?: CounterAlignment;
+  wrap: boolean;
+  rowGap: number;
+} {
+  const base: AutoLayoutSpec = element.layout ?? {
     direction: 'HORIZONTAL',
     gap: 8,
     padding: 12,
     alignment: 'CENTER',
   };
-  let result = { ...base };
+  let result = base;
   states.forEach((stateSpec) => {
     if (isRoot && stateSpec.style.layout?.autolayout) {
-      const override = stateSpec.style.layout.autolayout;
-      result = {
-        direction: result.direction,
-        gap: override.gap ?? result.gap,
-        padding: override.padding ?? result.padding,
-        alignment: mapAlignKey(override.align ?? 'start'),
-      };
+      result = mergeAutoLayoutOverride(result, stateSpec.style.layout.autolayout);
     }
     const elementStyle = getElementStyleForState(stateSpec, element);
     if (elementStyle?.autolayout) {
-      result = {
-        direction: result.direction,
-        gap: elementStyle.autolayout.gap ?? result.gap,
-        padding: elementStyle.autolayout.padding ?? result.padding,
-        alignment: mapAlignKey(elementStyle.autolayout.align ?? 'start'),
-      };
+      result = mergeAutoLayoutOverride(result, elementStyle.autolayout);
     }
   });
   return {
     direction: result.direction,
     gap: result.gap,
     padding: result.padding,
-    alignment: mapAlignKey((result as any).alignment ?? 'start'),
+    alignment: mapAlignKey(result.alignment),
+    counterAlignment: result.counterAlignment ? getCounterAlignment(result) : undefined,
+    wrap: isWrapping(result),
+    rowGap: result.rowGap ?? result.gap,
   };
 }
 
+/**
+ * The element's size with the size overrides of the base style and active
+ * states applied on top: the style's own layout for the root, the element's
+ * `style.elements` entries for every element.
+ */
+function resolveSizeForElement(element: ElementSpec, states: StateSpec[], isRoot: boolean): SizeSpec {
+  const size: SizeSpec = { ...element.size };
+  const overrides = [state.spec.baseStyle, ...states.map((stateSpec) => stateSpec.style)];
+  overrides.forEach((style) => {
+    if (isRoot) Object.assign(size, style?.layout?.size);
+    Object.entries(style?.elements ?? {})
+      .filter(([key]) => key === element.id || key === element.role)
+      .forEach(([, elementStyle]) => Object.assign(size, elementStyle.layout?.size));
+  });
+  return size;
+}
+
 function mapAlignKey(value: string): 'start' | 'center' | 'end' | 'space-between' {
   if (value === 'CENTER') return 'center';
   if (value === 'END') return 'end';
@@ -508,6 +1028,11 @@ function mapAlignment(value: 'start' | 'center' | 'end' | 'space-between'): stri
   }
 }
 
+function mapCounterAlignment(value: CounterAlignment): string {
+  if (value === 'BASELINE') return 'baseline';
+  return mapAlignment(mapAlignKey(value));
+}
+
 function mapJustify(value: 'start' | 'center' | 'end' | 'space-between'): string {
   switch (value) {
     case 'center':
@@ -521,7 +1046,8 @@ function mapJustify(value: 'start' | 'center' | 'end' | 'space-between'): string
   }
 }
 
-function toCssColor(color: string, opacity?: number): string {
+function toCssColor(value: ColorValue, opacity?: number): string {
+  const color = resolveColor(value, state.spec.styleTokens) ?? 'transparent';
   if (color.startsWith('#') && color.length === 7) {
     const r = parseInt(color.slice(1, 3), 16);
     const g = parseInt(color.slice(3, 5), 16);
@@ -539,15 +1065,39 @@ function computeDefaultVariants(spec: ComponentSpec): VariantCombination {
   });
   const firstState = spec.states[0]?.appliesTo;
   if (firstState) {
-    Object.entries(firstState).forEach(([group, value]) => {
-      variants[group] = value;
-    });
+    alignVariantsWithSelector(variants, firstState, spec.variantGroups);
   }
-  return variants;
+  return isCombinationIncluded(spec, variants) ? variants : findClosestCombination(spec, variants) ?? variants;
+}
+
+/**
+ * Moves the previewed variant off an excluded combination, keeping the value
+ * of the group that was just changed where possible.
+ */
+function keepActiveVariantsIncluded(changedGroup?: string) {
+  if (isCombinationIncluded(state.spec, state.activeVariants)) return;
+  const closest = findClosestCombination(state.spec, state.activeVariants, changedGroup);
+  if (closest) {
+    state.activeVariants = { ...closest };
+  }
+}
+
+/**
+ * Moves each variant the selector constrains onto the first value it accepts,
+ * keeping values that already match.
+ */
+function alignVariantsWithSelector(variants: VariantCombination, selector: VariantSelector, groups: VariantGroupSpec[]) {
+  Object.entries(selector).forEach(([group, value]) => {
+    if (selectorValueMatches(value, variants[group])) return;
+    const match = groups.find((candidate) => candidate.name === group)?.values.find((candidate) => selectorValueMatches(value, candidate));
+    if (match) {
+      variants[group] = match;
+    }
+  });
 }
 
 function getActiveStates(): StateSpec[] {
-  return state.spec.states.filter((stateSpec) => variantMatchesSelector(state.activeVariants, stateSpec.appliesTo));
+  return resolveStatesForCombination(state.spec.states, state.activeVariants);
 }
 
 function renderStateSelector() {
@@ -562,12 +1112,14 @@ function renderStateSelector() {
 }
 
 function renderVariantControls() {
+  const combinations = getSpecCombinations(state.spec);
   dom.variantToggleContainer.innerHTML = state.spec.variantGroups
     .map((group) => {
       const options = group.values
         .map((value) => {
           const selected = state.activeVariants[group.name] === value ? 'selected' : '';
-          return `<option value="${value}" ${selected}>${value}</option>`;
+          const excluded = combinations.every((combination) => combination[group.name] !== value) ? 'disabled' : '';
+          return `<option value="${value}" ${selected} ${excluded}>${value}</option>`;
         })
         .join('');
       return `
@@ -584,13 +1136,18 @@ function renderInspector() {
   const selectedElement = findElementById(state.spec.structure, state.selection.elementId);
   const currentState = state.spec.states[state.selection.stateIndex];
   const componentSection = renderComponentSection();
+  const structureSection = renderStructureSection(selectedElement);
+  const tokensSection = renderTokensSection();
   const variantSection = renderVariantSection();
   const statesSection = renderStatesSection();
   const propsSection = renderPropsSection();
   const bindingSection = renderBindingsSection(selectedElement);
   const styleSection = renderStyleSection(selectedElement, currentState);
   dom.inspector.innerHTML =
-    componentSection + variantSection + statesSection + propsSection + bindingSection + styleSection;
+    componentSection +
+    structureSection +
+    tokensSection +
+    variantSection + statesSection + propsSection + bindingSection + styleSection;
   bindInspectorEvents();
 }
 
@@ -607,6 +1164,128 @@ function renderComponentSection(): string {
   `;
 }
 
+/**
+ * Layer tree mirroring `spec.structure`. Rows can be dragged before, after or
+ * (for frames) into other rows; the controls below edit the selected element.
+ */
+function renderStructureSection(selection: ElementSpec | null): string {
+  const target = selection ?? state.spec.structure;
+  const rows: string[] = [];
+  const visit = (element: ElementSpec, depth: number) => {
+    const selected = element.id === target.id ? 'selected' : '';
+    const hidden = element.defaultVisible === false ? ' layer-hidden' : '';
+    rows.push(`
+      <li class="layer-row ${selected}${hidden}" data-layer-id="${escapeHtml(element.id)}" style="--depth: ${depth}"
+        draggable="${depth > 0}">
+        <button class="layer-select" data-action="select-layer" data-layer-id="${escapeHtml(element.id)}">
+          <span class="layer-kind">${element.type}</span> ${escapeHtml(element.name)}
+        </button>
+      </li>
+    `);
+    element.children?.forEach((child) => visit(child, depth + 1));
+  };
+  visit(state.spec.structure, 0);
+  const isRoot = target === state.spec.structure;
+  const kindOptions = ELEMENT_KINDS.map((kind) => `<option value="${kind}">${kind}</option>`).join('');
+  return `
+    <section class="section" id="structure-section">
+      <h2>Structure</h2>
+      <ul class="layer-tree">${rows.join('')}</ul>
+      <div class="field">
+        <span>Element name</span>
+        <input data-action="layer-name" value="${escapeHtml(target.name)}" />
+      </div>
+      <div class="field">
+        <span>Id</span>
+        <input data-action="layer-id" value="${escapeHtml(target.id)}" />
+      </div>
+      <div class="field">
+        <span>Role</span>
+        <input data-action="layer-role" value="${escapeHtml(target.role ?? '')}" placeholder="None" />
+      </div>
+      <label class="checkbox">
+        <input type="checkbox" data-action="layer-visible" ${target.defaultVisible === false ? '' : 'checked'} />
+        Visible by default
+      </label>
+      ${isRoot ? '' : renderVisibleWhenFields(target)}
+      ${
+        canHaveChildren(target)
+          ? `<div class="row-actions">
+              <select data-action="layer-kind" aria-label="Kind of the new element">${kindOptions}</select>
+              <button class="ghost" data-action="add-layer">Add child</button>
+            </div>`
+          : ''
+      }
+      ${
+        isRoot
+          ? ''
+          : `<div class="row-actions">
+              <button class="ghost" data-action="layer-indent" title="Move into the frame above">Nest</button>
+              <button class="ghost" data-action="layer-outdent" title="Move out of the parent frame">Unnest</button>
+              <button class="ghost" data-action="wrap-layer">Wrap in frame</button>
+              <button class="ghost" data-action="remove-layer">Delete</button>
+            </div>`
+      }
+    </section>
+  `;
+}
+
+function renderTokensSection(): string {
+  const colorRows = Object.entries(state.spec.styleTokens?.colors ?? {})
+    .map(([name, value]) => {
+      const token = escapeHtml(name);
+      return `
+        <tr>
+          <td><input data-action="token-name" data-kind="colors" data-token="${token}" value="${token}" /></td>
+          <td><input data-action="token-color" data-token="${token}" value="${escapeHtml(value)}" /></td>
+          <td><input data-action="token-figma" data-kind="colors" data-token="${token}" value="${escapeHtml(
+            state.spec.figmaStyles?.colors?.[name] ?? '',
+          )}" placeholder="Variable/ style" /></td>
+          <td><button class="ghost" data-action="remove-token" data-kind="colors" data-token="${token}">Remove</button></td>
+        </tr>
+      `;
+    })
+    .join('');
+  const textRows = Object.entries(state.spec.styleTokens?.textStyles ?? {})
+    .map(([name, value]) => {
+      const token = escapeHtml(name);
+      return `
+        <tr>
+          <td><input data-action="token-name" data-kind="textStyles" data-token="${token}" value="${token}" /></td>
+          <td><input data-action="token-text" data-field="fontFamily" data-token="${token}" value="${escapeHtml(
+            value.fontFamily,
+          )}" /></td>
+          <td><input data-action="token-text" data-field="fontSize" data-token="${token}" type="number" value="${value.fontSize}" /></td>
+          <td><input data-action="token-text" data-field="fontWeight" data-token="${token}" type="number" value="${value.fontWeight ?? ''}" /></td>
+          <td><input data-action="token-figma" data-kind="textStyles" data-token="${token}" value="${escapeHtml(
+            state.spec.figmaStyles?.textStyles?.[name] ?? '',
+          )}" placeholder="Text style" /></td>
+          <td><button class="ghost" data-action="remove-token" data-kind="textStyles" data-token="${token}">Remove</button></td>
+        </tr>
+      `;
+    })
+    .join('');
+  return `
+    <section class="section" id="tokens-section">
+      <h2>Tokens</h2>
+      <p class="muted">
+        Reference colour tokens in style fields as <code>{token.name}</code>. Tokens bind to the Figma
+        variable or style of the same name unless mapped explicitly.
+      </p>
+      <details open>
+        <summary>Colours</summary>
+        <table><tbody>${colorRows}</tbody></table>
+        <button class="ghost" data-action="add-token" data-kind="colors">Add colour</button>
+      </details>
+      <details>
+        <summary>Text styles</summary>
+        <table><tbody>${textRows}</tbody></table>
+        <button class="ghost" data-action="add-token" data-kind="textStyles">Add text style</button>
+      </details>
+    </section>
+  `;
+}
+
 function renderVariantSection(): string {
   return `
     <section class="section" id="variant-section">
@@ -636,10 +1315,79 @@ function renderVariantSection(): string {
         })
         .join('')}
       <button class="primary" data-action="add-variant-group">Add group</button>
+      ${renderExcludedCombinations()}
     </section>
   `;
 }
 
+function renderExcludedCombinations(): string {
+  const rows = (state.spec.excludedCombinations ?? [])
+    .map(
+      (selector, index) => `
+        <div class="row-actions">
+          <span>${escapeHtml(describeSelector(selector))}</span>
+          <button class="ghost" data-action="remove-excluded-combination" data-index="${index}">Remove</button>
+        </div>`,
+    )
+    .join('');
+  const previewed = describeCombination(state.activeVariants);
+  return `
+    <div class="field">
+      <span>Excluded combinations</span>
+      ${rows || '<p class="muted">Every combination is generated.</p>'}
+      ${
+        previewed
+          ? `<button class="ghost" data-action="exclude-combination">Exclude ${escapeHtml(previewed)}</button>`
+          : ''
+      }
+    </div>`;
+}
+
+/**
+ * Text fields for the state's text overrides, one per text element that is
+ * not bound to a text property. Empty fields keep the element's own text.
+ */
+function renderTextOverrideFields(current: StateSpec): string {
+  const fields = flattenElements(state.spec.structure)
+    .filter((element) => element.type === 'TEXT' && !getBindingForElement(element, 'TEXT'))
+    .map((element) => {
+      const value = getTextOverride(current, element) ?? '';
+      return `
+        <label class="field">
+          <span>Text of ${escapeHtml(element.name)}</span>
+          <input data-action="state-text" data-element-id="${escapeHtml(element.id)}" value="${escapeHtml(
+            value,
+          )}" placeholder="${escapeHtml(element.text?.default ?? '')}" />
+        </label>`;
+    })
+    .join('');
+  return fields ? `<div class="selectors">${fields}</div>` : '';
+}
+
+/**
+ * The states applied to the previewed variant, first to last; later entries
+ * win where they set the same property.
+ */
+function renderStateOrder(): string {
+  const active = getActiveStates();
+  const items = active.length
+    ? active
+        .map(
+          (stateSpec) =>
+            `<li>${escapeHtml(stateSpec.label || stateSpec.name)}${
+              stateSpec.priority ? ` <span class="muted">(priority ${stateSpec.priority})</span>` : ''
+            }</li>`,
+        )
+        .join('')
+    : '<li class="muted">No state applies.</li>';
+  const variant = describeCombination(state.activeVariants) || 'the preview';
+  return `
+    <div class="field">
+      <span>Applied to ${escapeHtml(variant)}, in order</span>
+      <ol class="state-order">${items}</ol>
+    </div>`;
+}
+
 function renderStatesSection(): string {
   const list = state.spec.states
     .map((stateSpec, index) => {
@@ -652,11 +1400,17 @@ function renderStatesSection(): string {
   const current = state.spec.states[state.selection.stateIndex];
   const selectors = state.spec.variantGroups
     .map((group) => {
-      const value = current.appliesTo?.[group.name] ?? '';
+      const value = formatSelectorValue(current.appliesTo?.[group.name]);
       return `
         <label class="field">
           <span>${group.name}</span>
-          <input data-action="state-selector" data-group="${group.name}" value="${value}" placeholder="Any" />
+          <input
+            data-action="state-selector"
+            data-group="${group.name}"
+            value="${escapeHtml(value)}"
+            placeholder="Any"
+            title="Comma-separate values to match any of them, prefix with ! to exclude them, or use * for any value"
+          />
         </label>
       `;
     })
@@ -669,12 +1423,18 @@ function renderStatesSection(): string {
         <span>State name</span>
         <input data-action="state-name" value="${current.name}" />
       </div>
+      <label class="field">
+        <span>Priority</span>
+        <input data-action="state-priority" type="number" step="1" value="${current.priority ?? 0}" />
+      </label>
       <div class="selectors">${selectors}</div>
+      ${renderTextOverrideFields(current)}
       <div class="row-actions">
         <button class="ghost" data-action="duplicate-state">Duplicate</button>
         <button class="ghost" data-action="remove-state">Remove</button>
         <button class="ghost" data-action="add-state">Add State</button>
       </div>
+      ${renderStateOrder()}
     </section>
   `;
 }
@@ -763,10 +1523,32 @@ function renderStyleSection(element: ElementSpec | null, currentState: StateSpec
   const elementStyle = key
     ? currentState.style.elements?.[key] ?? createEmptyElementStyle()
     : currentState.style;
-  const fill = elementStyle.fills?.[0]?.color ?? '';
-  const stroke = elementStyle.strokes?.[0]?.color ?? '';
+  const firstFill = elementStyle.fills?.[0];
+  const fill = firstFill?.type === 'SOLID' ? formatColorValue(firstFill.color) : '';
+  // Gradient and image fills are edited in JSON; typing a colour replaces them.
+  const fillPlaceholder =
+    firstFill && firstFill.type !== 'SOLID'
+      ? `${escapeHtml(describeFill(firstFill))} (type a colour to replace)`
+      : '#1f5af6 or {color.token}';
+  const firstStroke = elementStyle.strokes?.[0];
+  const stroke = formatColorValue(firstStroke?.color);
+  const sides = firstStroke?.sideWeights;
+  const strokeWeight = sides ? [sides.top, sides.right, sides.bottom, sides.left].join(',') : firstStroke?.weight ?? '';
+  const strokeAlignOptions = (['INSIDE', 'CENTER', 'OUTSIDE'] as StrokeAlign[])
+    .map(
+      (align) =>
+        `<option value="${align}" ${(firstStroke?.strokeAlign ?? 'INSIDE') === align ? 'selected' : ''}>${
+          align.charAt(0) + align.slice(1).toLowerCase()
+        }</option>`,
+    )
+    .join('');
   const radius = typeof elementStyle.cornerRadius === 'number' ? elementStyle.cornerRadius : '';
-  const textStyle = elementStyle.textStyle ?? currentState.style.textStyle;
+  const textStyleValue = elementStyle.textStyle ?? currentState.style.textStyle;
+  const textStyle = resolveTextStyle(textStyleValue, state.spec.styleTokens);
+  const textStyleToken = isTokenRef(textStyleValue) ? textStyleValue.token : '';
+  const textStyleOptions = Object.keys(state.spec.styleTokens?.textStyles ?? {})
+    .map((name) => `<option value="${name}" ${name === textStyleToken ? 'selected' : ''}>${name}</option>`)
+    .join('');
   const fontFamily = textStyle?.fontFamily ?? '';
   const fontWeight = textStyle?.fontWeight ?? '';
   const fontSize = textStyle?.fontSize ?? '';
@@ -782,16 +1564,35 @@ function renderStyleSection(element: ElementSpec | null, currentState: StateSpec
       }</strong></p>
       <div class="field">
         <span>Fill</span>
-        <input data-action="style-fill" value="${fill}" placeholder="#1f5af6" />
+        <input data-action="style-fill" value="${fill}" placeholder="${fillPlaceholder}" />
       </div>
       <div class="field">
         <span>Stroke</span>
-        <input data-action="style-stroke" value="${stroke}" placeholder="#000000" />
+        <input data-action="style-stroke" value="${stroke}" placeholder="#000000 or {color.token}" />
+      </div>
+      <div class="field">
+        <span>Stroke weight (single value or top,right,bottom,left)</span>
+        <input data-action="style-stroke-weight" value="${strokeWeight}" placeholder="1" />
+      </div>
+      <div class="field">
+        <span>Stroke align</span>
+        <select data-action="style-stroke-align">${strokeAlignOptions}</select>
+      </div>
+      <div class="field">
+        <span>Dash pattern (dash,gap)</span>
+        <input data-action="style-dash" value="${firstStroke?.dashPattern?.join(',') ?? ''}" placeholder="Solid" />
       </div>
       <div class="field">
         <span>Corner radius</span>
         <input data-action="style-radius" type="number" value="${radius}" />
       </div>
+      <div class="field">
+        <span>Text style token</span>
+        <select data-action="style-text-token">
+          <option value="">None</option>
+          ${textStyleOptions}
+        </select>
+      </div>
       <div class="field">
         <span>Font family</span>
         <input data-action="style-font-family" value="${fontFamily}" placeholder="Inter" />
@@ -826,7 +1627,99 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         draft.name = value;
-      });
+      }, { label: 'Renamed component', coalesceKey: 'component-name' });
+    });
+  });
+
+  bindStructureEvents();
+
+  dom.inspector.querySelectorAll('button[data-action="add-token"]').forEach((button) => {
+    button.addEventListener('click', (event) => {
+      const kind = (event.target as HTMLElement).getAttribute('data-kind') as keyof DesignTokensRef;
+      updateSpec((draft) => {
+        draft.styleTokens = draft.styleTokens ?? {};
+        if (kind === 'colors') {
+          draft.styleTokens.colors = draft.styleTokens.colors ?? {};
+          const name = `color.token${Object.keys(draft.styleTokens.colors).length + 1}`;
+          draft.styleTokens.colors[name] = '#1f5af6';
+        } else {
+          draft.styleTokens.textStyles = draft.styleTokens.textStyles ?? {};
+          const name = `text.token${Object.keys(draft.styleTokens.textStyles).length + 1}`;
+          draft.styleTokens.textStyles[name] = { fontFamily: 'Inter', fontSize: 14, fontWeight: 400 };
+        }
+      }, { label: `Added ${kind === 'colors' ? 'colour' : 'text style'} token` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('button[data-action="remove-token"]').forEach((button) => {
+    button.addEventListener('click', (event) => {
+      const kind = (event.target as HTMLElement).getAttribute('data-kind') as keyof DesignTokensRef;
+      const name = (event.target as HTMLElement).getAttribute('data-token')!;
+      updateSpec((draft) => {
+        delete draft.styleTokens?.[kind]?.[name];
+      }, { label: `Removed token ${name}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="token-name"]').forEach((input) => {
+    input.addEventListener('change', (event) => {
+      const kind = (event.target as HTMLElement).getAttribute('data-kind') as keyof DesignTokensRef;
+      const oldName = (event.target as HTMLElement).getAttribute('data-token')!;
+      const newName = (event.target as HTMLInputElement).value.trim();
+      if (!newName || newName === oldName) return;
+      if (newName in (state.spec.styleTokens?.[kind] ?? {})) {
+        (event.target as HTMLInputElement).value = oldName;
+        showHint(`A token named "${newName}" already exists.`, true);
+        return;
+      }
+      updateSpec((draft) => {
+        renameToken(draft, kind, oldName, newName);
+      }, { label: `Renamed token ${oldName} → ${newName}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="token-figma"]').forEach((input) => {
+    input.addEventListener('input', (event) => {
+      const kind = (event.target as HTMLElement).getAttribute('data-kind') as keyof FigmaStyleMapping;
+      const name = (event.target as HTMLElement).getAttribute('data-token')!;
+      const value = (event.target as HTMLInputElement).value.trim();
+      updateSpec((draft) => {
+        draft.figmaStyles = draft.figmaStyles ?? {};
+        const mapping = (draft.figmaStyles[kind] = draft.figmaStyles[kind] ?? {});
+        if (value) {
+          mapping[name] = value;
+        } else {
+          delete mapping[name];
+        }
+      }, { label: `Changed Figma style of ${name}`, coalesceKey: `token-figma:${kind}:${name}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="token-color"]').forEach((input) => {
+    input.addEventListener('input', (event) => {
+      const name = (event.target as HTMLElement).getAttribute('data-token')!;
+      const value = (event.target as HTMLInputElement).value.trim();
+      updateSpec((draft) => {
+        draft.styleTokens!.colors![name] = value;
+      }, { label: `Changed token ${name}`, coalesceKey: `token-color:${name}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="token-text"]').forEach((input) => {
+    input.addEventListener('input', (event) => {
+      const name = (event.target as HTMLElement).getAttribute('data-token')!;
+      const field = (event.target as HTMLElement).getAttribute('data-field') as keyof TextStyleSpec;
+      const value = (event.target as HTMLInputElement).value;
+      updateSpec((draft) => {
+        const textStyle = draft.styleTokens!.textStyles![name];
+        if (field === 'fontFamily') {
+          textStyle.fontFamily = value;
+        } else if (field === 'fontSize') {
+          textStyle.fontSize = Number(value) || 14;
+        } else if (field === 'fontWeight') {
+          textStyle.fontWeight = Number(value) || undefined;
+        }
+      }, { label: `Changed token ${name} → ${field}`, coalesceKey: `token-text:${name}:${field}` });
     });
   });
 
@@ -836,7 +1729,7 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         draft.variantGroups[index].name = value;
-      });
+      }, { label: 'Renamed variant group', coalesceKey: `variant-group-name:${index}` });
     });
   });
 
@@ -844,7 +1737,7 @@ function bindInspectorEvents() {
     button.addEventListener('click', () => {
       updateSpec((draft) => {
         draft.variantGroups.push({ name: 'variant', values: ['default'] });
-      });
+      }, { label: 'Added variant group' });
     });
   });
 
@@ -853,7 +1746,26 @@ function bindInspectorEvents() {
       const index = Number((event.target as HTMLElement).getAttribute('data-group-index'));
       updateSpec((draft) => {
         draft.variantGroups.splice(index, 1);
-      });
+      }, { label: `Removed variant group ${state.spec.variantGroups[index]?.name}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('button[data-action="exclude-combination"]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const combination = { ...state.activeVariants };
+      updateSpec((draft) => {
+        draft.excludedCombinations = [...(draft.excludedCombinations ?? []), combination];
+      }, { label: `Excluded ${describeCombination(combination)}` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('button[data-action="remove-excluded-combination"]').forEach((button) => {
+    button.addEventListener('click', (event) => {
+      const index = Number((event.target as HTMLElement).getAttribute('data-index'));
+      updateSpec((draft) => {
+        draft.excludedCombinations?.splice(index, 1);
+        if (!draft.excludedCombinations?.length) delete draft.excludedCombinations;
+      }, { label: 'Removed excluded combination' });
     });
   });
 
@@ -862,7 +1774,7 @@ function bindInspectorEvents() {
       const index = Number((event.target as HTMLElement).getAttribute('data-group-index'));
       updateSpec((draft) => {
         draft.variantGroups[index].values.push('value');
-      });
+      }, { label: `Added ${state.spec.variantGroups[index]?.name} value` });
     });
   });
 
@@ -872,7 +1784,7 @@ function bindInspectorEvents() {
       const valueIndex = Number((event.target as HTMLElement).getAttribute('data-value-index'));
       updateSpec((draft) => {
         draft.variantGroups[groupIndex].values.splice(valueIndex, 1);
-      });
+      }, { label: `Removed ${state.spec.variantGroups[groupIndex]?.name} value` });
     });
   });
 
@@ -883,6 +1795,9 @@ function bindInspectorEvents() {
       const valueIndex = Number(target.dataset.valueIndex);
       updateSpec((draft) => {
         draft.variantGroups[groupIndex].values[valueIndex] = target.value;
+      }, {
+        label: `Changed ${state.spec.variantGroups[groupIndex]?.name} value`,
+        coalesceKey: `variant-value:${groupIndex}:${valueIndex}`,
       });
     });
   });
@@ -900,7 +1815,7 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         draft.states[state.selection.stateIndex].name = value;
-      });
+      }, { label: 'Renamed state', coalesceKey: `state-name:${state.selection.stateIndex}` });
     });
   });
 
@@ -908,7 +1823,7 @@ function bindInspectorEvents() {
     input.addEventListener('input', (event) => {
       const target = event.target as HTMLInputElement;
       const group = target.dataset.group!;
-      const value = target.value.trim();
+      const value = parseSelectorValue(target.value);
       updateSpec((draft) => {
         const stateSpec = draft.states[state.selection.stateIndex];
         stateSpec.appliesTo = stateSpec.appliesTo ?? {};
@@ -917,6 +1832,48 @@ function bindInspectorEvents() {
         } else {
           delete stateSpec.appliesTo![group];
         }
+      }, {
+        label: `Changed ${describeState(state.selection.stateIndex)} selector`,
+        coalesceKey: `state-selector:${state.selection.stateIndex}:${group}`,
+      });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="state-priority"]').forEach((input) => {
+    input.addEventListener('change', (event) => {
+      const value = Math.round(Number((event.target as HTMLInputElement).value)) || 0;
+      updateSpec((draft) => {
+        const stateSpec = draft.states[state.selection.stateIndex];
+        if (value) {
+          stateSpec.priority = value;
+        } else {
+          delete stateSpec.priority;
+        }
+      }, { label: `Changed ${describeState(state.selection.stateIndex)} priority` });
+    });
+  });
+
+  dom.inspector.querySelectorAll('input[data-action="state-text"]').forEach((input) => {
+    input.addEventListener('input', (event) => {
+      const target = event.target as HTMLInputElement;
+      const elementId = target.dataset.elementId!;
+      const value = target.value;
+      updateSpec((draft) => {
+        const stateSpec = draft.states[state.selection.stateIndex];
+        const overrides = { ...stateSpec.textOverrides };
+        if (value) {
+          overrides[elementId] = value;
+        } else {
+          delete overrides[elementId];
+        }
+        if (Object.keys(overrides).length) {
+          stateSpec.textOverrides = overrides;
+        } else {
+          delete stateSpec.textOverrides;
+        }
+      }, {
+        label: `Changed ${describeState(state.selection.stateIndex)} text`,
+        coalesceKey: `state-text:${state.selection.stateIndex}:${elementId}`,
       });
     });
   });
@@ -925,7 +1882,7 @@ function bindInspectorEvents() {
     button.addEventListener('click', () => {
       updateSpec((draft) => {
         draft.states.push({ name: `state-${draft.states.length + 1}`, style: {} });
-      });
+      }, { label: 'Added state' });
     });
   });
 
@@ -935,7 +1892,7 @@ function bindInspectorEvents() {
         const clone = deepCloneSpec(draft.states[state.selection.stateIndex]);
         clone.name = `${clone.name}-copy`;
         draft.states.splice(state.selection.stateIndex + 1, 0, clone);
-      });
+      }, { label: `Duplicated ${describeState(state.selection.stateIndex)}` });
     });
   });
 
@@ -943,7 +1900,7 @@ function bindInspectorEvents() {
     button.addEventListener('click', () => {
       updateSpec((draft) => {
         draft.states.splice(state.selection.stateIndex, 1);
-      });
+      }, { label: `Removed ${describeState(state.selection.stateIndex)}` });
       state.selection.stateIndex = Math.max(0, state.selection.stateIndex - 1);
       render();
     });
@@ -956,7 +1913,7 @@ function bindInspectorEvents() {
         draft.propDefinitions[type] = draft.propDefinitions[type] ?? {};
         const key = `prop${Object.keys(draft.propDefinitions[type]!).length + 1}`;
         (draft.propDefinitions[type] as any)[key] = { name: 'Property' };
-      });
+      }, { label: `Added ${type} property` });
     });
   });
 
@@ -966,7 +1923,7 @@ function bindInspectorEvents() {
       const key = (event.target as HTMLElement).getAttribute('data-prop')!;
       updateSpec((draft) => {
         delete draft.propDefinitions[type]?.[key];
-      });
+      }, { label: `Removed property ${key}` });
     });
   });
 
@@ -977,7 +1934,7 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         draft.propDefinitions[type]![key].name = value;
-      });
+      }, { label: `Renamed property ${key}`, coalesceKey: `prop-name:${type}:${key}` });
     });
   });
 
@@ -988,7 +1945,7 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         (draft.propDefinitions[type]![key] as any).defaultValue = value;
-      });
+      }, { label: `Changed default of ${key}`, coalesceKey: `prop-default:${type}:${key}` });
     });
   });
 
@@ -1001,7 +1958,7 @@ function bindInspectorEvents() {
       updateSpec((draft) => {
         draft.propDefinitions[type]![newKey] = draft.propDefinitions[type]![oldKey];
         delete draft.propDefinitions[type]![oldKey];
-      });
+      }, { label: `Changed key of ${oldKey}` });
     });
   });
 
@@ -1013,7 +1970,7 @@ function bindInspectorEvents() {
           type: 'BOOLEAN',
           target: { kind: 'NODE', nodeId: draft.structure.id },
         });
-      });
+      }, { label: 'Added binding' });
     });
   });
 
@@ -1022,7 +1979,7 @@ function bindInspectorEvents() {
       const index = Number((event.target as HTMLElement).getAttribute('data-index'));
       updateSpec((draft) => {
         draft.bindings.splice(index, 1);
-      });
+      }, { label: 'Removed binding' });
     });
   });
 
@@ -1035,7 +1992,7 @@ function bindInspectorEvents() {
       const index = Number((event.target as HTMLElement).getAttribute('data-index'));
       updateSpec((draft) => {
         draft.bindings[index].target = { kind: 'NODE', nodeId: state.selection.elementId! };
-      });
+      }, { label: 'Bound property to selection' });
     });
   });
 
@@ -1045,7 +2002,7 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLSelectElement).value as PropBinding['type'];
       updateSpec((draft) => {
         draft.bindings[index].type = value;
-      });
+      }, { label: 'Changed binding type' });
     });
   });
 
@@ -1055,13 +2012,206 @@ function bindInspectorEvents() {
       const value = (event.target as HTMLInputElement).value;
       updateSpec((draft) => {
         draft.bindings[index].propName = value;
-      });
+      }, { label: 'Changed binding property', coalesceKey: `binding-prop:${index}` });
     });
   });
 
   dom.inspector.querySelectorAll('input[data-action^="style-"]').forEach((input) => {
     input.addEventListener('input', handleStyleInput);
   });
+
+  dom.inspector.querySelectorAll('select[data-action^="style-"]').forEach((select) => {
+    select.addEventListener('change', handleStyleInput);
+  });
+}
+
+/**
+ * Applies a structure edit. The structure helpers throw when an edit is not
+ * possible (e.g. nesting into a text node), which leaves the spec untouched.
+ */
+function editStructure(mutator: (draft: ComponentSpec) => void, change: HistoryChange): boolean {
+  try {
+    updateSpec(mutator, change);
+    return true;
+  } catch (error: any) {
+    showHint(error?.message ?? String(error), true);
+    return false;
+  }
+}
+
+/**
+ * One select per variant group restricting the variants the element appears
+ * in; "Any" leaves the group unrestricted.
+ */
+function renderVisibleWhenFields(target: ElementSpec): string {
+  const fields = state.spec.variantGroups
+    .map((group) => {
+      const current = formatSelectorValue(target.visibleWhen?.[group.name]);
+      const options = ['', ...group.values, ...(current && !group.values.includes(current) ? [current] : [])]
+        .map(
+          (value) =>
+            `<option value="${escapeHtml(value)}" ${value === current ? 'selected' : ''}>${
+              value ? escapeHtml(value) : 'Any'
+            }</option>`,
+        )
+        .join('');
+      return `
+        <label class="field">
+          <span>Visible when ${escapeHtml(group.name)} is</span>
+          <select data-action="layer-visible-when" data-group="${escapeHtml(group.name)}">${options}</select>
+        </label>`;
+    })
+    .join('');
+  return fields ? `<div class="selectors">${fields}</div>` : '';
+}
+
+function bindStructureEvents() {
+  const target = findElementById(state.spec.structure, state.selection.elementId) ?? state.spec.structure;
+  const selectLayer = (id: string | null) => {
+    state.selection.elementId = id;
+    render();
+  };
+  const on = (action: string, type: string, listener: (event: Event) => void) => {
+    dom.inspector.querySelectorAll(`[data-action="${action}"]`).forEach((element) => {
+      element.addEventListener(type, listener);
+    });
+  };
+
+  on('select-layer', 'click', (event) => {
+    selectLayer((event.currentTarget as HTMLElement).dataset.layerId ?? null);
+  });
+  on('layer-name', 'input', (event) => {
+    const value = (event.target as HTMLInputElement).value;
+    updateSpec(
+      (draft) => {
+        findElementById(draft.structure, target.id)!.name = value;
+      },
+      { label: `Renamed ${target.name}`, coalesceKey: `layer-name:${target.id}` },
+    );
+  });
+  on('layer-id', 'change', (event) => {
+    const value = (event.target as HTMLInputElement).value.trim();
+    if (editStructure((draft) => setElementId(draft, target.id, value), { label: `Changed id of ${target.name}` })) {
+      if (state.selection.elementId === target.id && value) selectLayer(value);
+    } else {
+      render();
+    }
+  });
+  on('layer-role', 'change', (event) => {
+    const value = (event.target as HTMLInputElement).value;
+    editStructure((draft) => setElementRole(draft, target.id, value), { label: `Changed role of ${target.name}` });
+  });
+  on('layer-visible', 'change', (event) => {
+    const visible = (event.target as HTMLInputElement).checked;
+    updateSpec(
+      (draft) => {
+        const element = findElementById(draft.structure, target.id)!;
+        if (visible) {
+          delete element.defaultVisible;
+        } else {
+          element.defaultVisible = false;
+        }
+      },
+      { label: `${visible ? 'Showed' : 'Hid'} ${target.name} by default` },
+    );
+  });
+  on('layer-visible-when', 'change', (event) => {
+    const select = event.target as HTMLSelectElement;
+    const group = select.dataset.group!;
+    updateSpec(
+      (draft) => {
+        const element = findElementById(draft.structure, target.id)!;
+        const selector = { ...element.visibleWhen };
+        const value = parseSelectorValue(select.value);
+        if (value) {
+          selector[group] = value;
+        } else {
+          delete selector[group];
+        }
+        if (Object.keys(selector).length) {
+          element.visibleWhen = selector;
+        } else {
+          delete element.visibleWhen;
+        }
+      },
+      { label: `Changed variants showing ${target.name}` },
+    );
+  });
+  on('add-layer', 'click', () => {
+    const kind = dom.inspector.querySelector<HTMLSelectElement>('select[data-action="layer-kind"]')!.value as NodeKind;
+    let added: ElementSpec | null = null;
+    if (
+      editStructure(
+        (draft) => {
+          added = addChildElement(draft, target.id, kind);
+        },
+        { label: `Added ${kind.toLowerCase()} to ${target.name}` },
+      )
+    ) {
+      selectLayer(added!.id);
+    }
+  });
+  on('layer-indent', 'click', () => {
+    editStructure((draft) => indentElement(draft, target.id), { label: `Nested ${target.name}` });
+  });
+  on('layer-outdent', 'click', () => {
+    editStructure((draft) => outdentElement(draft, target.id), { label: `Unnested ${target.name}` });
+  });
+  on('wrap-layer', 'click', () => {
+    editStructure((draft) => wrapElementInFrame(draft, target.id), { label: `Wrapped ${target.name} in a frame` });
+  });
+  on('remove-layer', 'click', () => {
+    const parent = findParentElement(state.spec.structure, target.id);
+    if (editStructure((draft) => removeElement(draft, target.id), { label: `Deleted ${target.name}` })) {
+      selectLayer(parent?.id ?? null);
+    }
+  });
+
+  let draggedId: string | null = null;
+  const dropPosition = (row: HTMLElement, event: DragEvent): 'before' | 'after' | 'inside' => {
+    const rect = row.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    const element = findElementById(state.spec.structure, row.dataset.layerId!);
+    if (element && canHaveChildren(element) && offset > 0.25 && offset < 0.75) return 'inside';
+    return offset < 0.5 ? 'before' : 'after';
+  };
+  dom.inspector.querySelectorAll<HTMLElement>('.layer-row').forEach((row) => {
+    row.addEventListener('dragstart', (event) => {
+      draggedId = row.dataset.layerId!;
+      event.dataTransfer?.setData('text/plain', draggedId);
+    });
+    row.addEventListener('dragover', (event) => {
+      if (!draggedId || draggedId === row.dataset.layerId) return;
+      event.preventDefault();
+      row.dataset.drop = dropPosition(row, event);
+    });
+    row.addEventListener('dragleave', () => {
+      delete row.dataset.drop;
+    });
+    row.addEventListener('drop', (event) => {
+      event.preventDefault();
+      const id = draggedId;
+      const overId = row.dataset.layerId!;
+      const position = dropPosition(row, event);
+      draggedId = null;
+      delete row.dataset.drop;
+      if (!id) return;
+      const moved = findElementById(state.spec.structure, id)!;
+      editStructure(
+        (draft) => {
+          if (position === 'inside') {
+            moveElement(draft, id, overId, Number.MAX_SAFE_INTEGER);
+            return;
+          }
+          const parent = findParentElement(draft.structure, overId);
+          if (!parent) throw new Error('Elements cannot be placed next to the root element.');
+          const index = parent.children!.findIndex((child) => child.id === overId);
+          moveElement(draft, id, parent.id, position === 'before' ? index : index + 1);
+        },
+        { label: `Moved ${moved.name}` },
+      );
+    });
+  });
 }
 
 function handleStyleInput(event: Event) {
@@ -1078,29 +2228,74 @@ function handleStyleInput(event: Event) {
     const targetStyle = key ? stateSpec.style.elements![key] : stateSpec.style;
     switch (action) {
       case 'style-fill':
-        targetStyle.fills = input.value ? [{ type: 'SOLID', color: input.value }] : [];
+        targetStyle.fills = input.value ? [{ type: 'SOLID', color: parseColorValue(input.value) }] : [];
+        break;
+      case 'style-stroke': {
+        const current = targetStyle.strokes?.[0];
+        targetStyle.strokes = input.value
+          ? [{ ...current, type: 'SOLID', color: parseColorValue(input.value), weight: current?.weight ?? 1 }]
+          : [];
+        break;
+      }
+      case 'style-stroke-weight': {
+        const stroke = ensureStroke(targetStyle);
+        const weights = parsePadding(input.value);
+        if (Array.isArray(weights)) {
+          stroke.sideWeights = { top: weights[0], right: weights[1], bottom: weights[2], left: weights[3] };
+          stroke.weight = Math.max(...weights);
+        } else {
+          delete stroke.sideWeights;
+          stroke.weight = weights ?? 1;
+        }
+        break;
+      }
+      case 'style-stroke-align':
+        ensureStroke(targetStyle).strokeAlign = input.value as StrokeAlign;
         break;
-      case 'style-stroke':
-        targetStyle.strokes = input.value ? [{ type: 'SOLID', color: input.value, weight: 1 }] : [];
+      case 'style-dash': {
+        const stroke = ensureStroke(targetStyle);
+        const pattern = input.value
+          .split(',')
+          .map((part) => Number(part.trim()))
+          .filter((value) => value > 0);
+        if (pattern.length) {
+          stroke.dashPattern = pattern;
+        } else {
+          delete stroke.dashPattern;
+        }
+        break;
+      }
+      case 'style-text-token':
+        targetStyle.textStyle = input.value
+          ? { token: input.value }
+          : resolveTextStyle(targetStyle.textStyle, draft.styleTokens);
         break;
       case 'style-radius':
         targetStyle.cornerRadius = input.value ? Number(input.value) : undefined;
         break;
       case 'style-font-family':
-        targetStyle.textStyle = targetStyle.textStyle ?? { fontFamily: 'Inter', fontSize: 14 };
-        targetStyle.textStyle.fontFamily = input.value;
+        targetStyle.textStyle = {
+          ...toLiteralTextStyle(targetStyle.textStyle, draft.styleTokens),
+          fontFamily: input.value,
+        };
         break;
       case 'style-font-weight':
-        targetStyle.textStyle = targetStyle.textStyle ?? { fontFamily: 'Inter', fontSize: 14 };
-        targetStyle.textStyle.fontWeight = Number(input.value) || 400;
+        targetStyle.textStyle = {
+          ...toLiteralTextStyle(targetStyle.textStyle, draft.styleTokens),
+          fontWeight: Number(input.value) || 400,
+        };
         break;
       case 'style-font-size':
-        targetStyle.textStyle = targetStyle.textStyle ?? { fontFamily: 'Inter', fontSize: 14 };
-        targetStyle.textStyle.fontSize = Number(input.value) || 14;
+        targetStyle.textStyle = {
+          ...toLiteralTextStyle(targetStyle.textStyle, draft.styleTokens),
+          fontSize: Number(input.value) || 14,
+        };
         break;
       case 'style-line-height':
-        targetStyle.textStyle = targetStyle.textStyle ?? { fontFamily: 'Inter', fontSize: 14 };
-        targetStyle.textStyle.lineHeight = Number(input.value) || undefined;
+        targetStyle.textStyle = {
+          ...toLiteralTextStyle(targetStyle.textStyle, draft.styleTokens),
+          lineHeight: Number(input.value) || undefined,
+        };
         break;
       case 'style-gap':
         stateSpec.style.layout = stateSpec.style.layout ?? {};
@@ -1115,7 +2310,27 @@ function handleStyleInput(event: Event) {
       default:
         break;
     }
-  });
+  }, describeStyleChange(action));
+}
+
+/**
+ * Returns the first stroke of a style, adding a black one when the style has
+ * none so that weight, alignment and dashes can be edited first.
+ */
+function ensureStroke(style: ElementStyleSpec): StrokeSpec {
+  if (!style.strokes?.length) {
+    style.strokes = [{ type: 'SOLID', color: '#000000', weight: 1 }];
+  }
+  return style.strokes[0];
+}
+
+/**
+ * Returns an editable copy of a text style, replacing token references with
+ * the values they resolve to.
+ */
+function toLiteralTextStyle(value: TextStyleValue | undefined, tokens?: DesignTokensRef): TextStyleSpec {
+  const resolved = resolveTextStyle(value, tokens);
+  return resolved ? { ...resolved } : { fontFamily: 'Inter', fontSize: 14 };
 }
 
 function parsePadding(value: string): number | [number, number, number, number] | undefined {
@@ -1137,6 +2352,17 @@ function renderValidation() {
     section.classList.add('section');
     section.id = 'validation-section';
     section.innerHTML = '<h2>Validation</h2><div class="validation-list"></div>';
+    section.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('[data-fix]');
+      const validation = state.validation;
+      if (!button || !validation) return;
+      const [kind, index] = button.dataset.fix!.split(':');
+      const issues =
+        kind === 'all'
+          ? [...validation.errors, ...validation.warnings]
+          : [validation[kind === 'error' ? 'errors' : 'warnings'][Number(index)]];
+      openFixPreview(issues.flatMap((issue) => issue.fixes ?? []));
+    });
     dom.inspector.appendChild(section);
   }
   const list = section.querySelector('.validation-list') as HTMLDivElement;
@@ -1144,12 +2370,90 @@ function renderValidation() {
     list.innerHTML = '<div class="validation-item">No validation info.</div>';
     return;
   }
+  const renderIssue = (issue: ValidationIssue, kind: 'error' | 'warning', index: number) => `
+    <div class="validation-item ${kind}">
+      <span>${escapeHtml(issue.message)}${issue.hint ? `<span class="hint">${escapeHtml(issue.hint)}</span>` : ''}</span>
+      ${issue.fixes?.length ? `<button class="ghost" data-fix="${kind}:${index}">Fix</button>` : ''}
+    </div>`;
+  const fixCount = [...state.validation.errors, ...state.validation.warnings].filter((issue) => issue.fixes?.length).length;
   list.innerHTML = [
-    ...state.validation.errors.map((issue) => `<div class="validation-item error">${issue.message}</div>`),
-    ...state.validation.warnings.map((issue) => `<div class="validation-item warning">${issue.message}</div>`),
+    fixCount > 1 ? `<button class="ghost" data-fix="all">Fix all (${fixCount})</button>` : '',
+    ...state.validation.errors.map((issue, index) => renderIssue(issue, 'error', index)),
+    ...state.validation.warnings.map((issue, index) => renderIssue(issue, 'warning', index)),
   ].join('');
 }
 
+/**
+ * Shows the fixes and the changes they make to the spec in the fix dialog;
+ * they are applied once the dialog is confirmed.
+ */
+function openFixPreview(fixes: AutoFixSuggestion[]) {
+  if (!fixes.length) return;
+  state.pendingFixes = fixes;
+  const changes = diffValues(state.spec, applyAutoFixes(state.spec, fixes));
+  dom.fixList.innerHTML = fixes.map((fix) => `<li>${escapeHtml(describeAutoFix(fix))}</li>`).join('');
+  dom.fixChanges.innerHTML = changes.length
+    ? changes.map(renderValueChange).join('')
+    : '<div class="validation-item">The fixes do not change the specification.</div>';
+  dom.fixDialog.showModal();
+}
+
+function renderValueChange(change: ValueChange): string {
+  const format = (value: unknown) => {
+    const text = JSON.stringify(value);
+    return escapeHtml(text.length > 60 ? `${text.slice(0, 59)}…` : text);
+  };
+  return `
+    <div class="validation-item diff-item">
+      <span>${escapeHtml(change.path)}</span>
+      ${change.before !== undefined ? `<del>${format(change.before)}</del>` : ''}
+      ${change.before !== undefined && change.after !== undefined ? '→' : ''}
+      ${change.after !== undefined ? `<ins>${format(change.after)}</ins>` : ''}
+    </div>`;
+}
+
+function renderStyleReport() {
+  if (!state.styleReport) return;
+  let section = dom.inspector.querySelector('#style-report-section') as HTMLElement | null;
+  if (!section) {
+    section = document.createElement('section');
+    section.classList.add('section');
+    section.id = 'style-report-section';
+    dom.inspector.appendChild(section);
+  }
+  const describe = (entry: StyleBindingEntry) =>
+    `<div class="validation-item"><span class="badge">${entry.kind}</span> ${entry.value}${
+      entry.target ? ` → <strong>${entry.target}</strong>` : ''
+    }</div>`;
+  const { bound, literals } = state.styleReport;
+  section.innerHTML = `
+    <h2>Style bindings</h2>
+    <p class="muted">${bound.length} bound to variables/ styles, ${literals.length} written as literal values.</p>
+    <details ${bound.length ? 'open' : ''}>
+      <summary>Bound</summary>
+      <div class="validation-list">${bound.map(describe).join('')}</div>
+    </details>
+    <details>
+      <summary>Literal fallbacks</summary>
+      <div class="validation-list">${literals.map(describe).join('')}</div>
+    </details>
+  `;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function downloadFile(fileName: string, contents: string, type: string) {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function showHint(message: string, isError = false) {
   dom.previewHint.textContent = message;
   dom.previewHint.style.color = isError ? '#d64545' : 'var(--muted)';
@@ -1167,7 +2471,7 @@ function postMessage(message: UIToPluginMessage) {
 function stateKey(stateSpec: StateSpec): string {
   if (stateSpec.appliesTo) {
     return Object.entries(stateSpec.appliesTo)
-      .map(([group, value]) => `${group}:${value}`)
+      .map(([group, value]) => `${group}:${formatSelectorValue(value)}`)
       .join('|');
   }
   return stateSpec.name;
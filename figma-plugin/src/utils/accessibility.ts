@@ -0,0 +1,342 @@
+import {
+  ComponentSpec,
+  ElementSpec,
+  FillSpec,
+  FourSideSize,
+  LayoutOverrideSpec,
+  SizeSpec,
+  StyleSpec,
+  TextStyleSpec,
+  ValidationIssue,
+  VariantCombination,
+} from '../types';
+import { resolveStyleTarget } from './css';
+import { joinPath } from './schema';
+import { getPrimaryFillColor } from './paints';
+import { Axis, getPrimaryAxis, getSizingMode } from './sizing';
+import {
+  describeCombination,
+  flattenElements,
+  getSpecCombinations,
+  resolveStatesForCombination,
+  variantMatchesSelector,
+} from './spec';
+import { resolveColor, resolveTextStyle } from './tokens';
+
+/** WCAG 2.x AA contrast for normal and large text. */
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+
+/** WCAG 2.2 minimum target size (2.5.8) in pixels. */
+export const MIN_TARGET_SIZE = 24;
+
+/**
+ * Variant values and state names that only make sense for elements users
+ * interact with, which therefore need a focus state and a large enough target.
+ */
+const INTERACTIVE_STATES = [
+  'hover',
+  'hovered',
+  'pressed',
+  'active',
+  'focus',
+  'focused',
+  'focus-visible',
+  'disabled',
+  'selected',
+  'checked',
+  'open',
+  'on',
+  'off',
+];
+
+type Rgb = [number, number, number];
+
+interface Rgba {
+  rgb: Rgb;
+  alpha: number;
+}
+
+/**
+ * Fills, text style and visibility of every element for one combination,
+ * after the base style and the matching states are applied.
+ */
+interface ResolvedElementStyle {
+  fills?: FillSpec[];
+  /** Path of the style that set `fills`; undefined for the element's own. */
+  fillsPath?: string;
+  textStyle?: TextStyleSpec;
+  /** The element's size with the size overrides of its style entries. */
+  size?: SizeSpec;
+  visible: boolean;
+}
+
+interface ResolvedCombination {
+  elements: Map<ElementSpec, ResolvedElementStyle>;
+  rootLayout: LayoutOverrideSpec;
+  /** Path of the last style that changed the root layout, if any. */
+  rootLayoutPath?: string;
+}
+
+/**
+ * Parses HEX (3, 6 or 8 digits) and `rgb()`/`rgba()` colours into channels
+ * between 0 and 255 plus alpha; other strings are undefined.
+ */
+export function parseRgba(color: string): Rgba | undefined {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, (digit) => digit + digit) : hex[1];
+    const channels = (digits.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+    return { rgb: [channels[0], channels[1], channels[2]], alpha: channels.length > 3 ? channels[3] / 255 : 1 };
+  }
+  const rgb = color.trim().match(/^rgba?\(([^)]*)\)$/i);
+  if (!rgb) return undefined;
+  const parts = rgb[1].split(',').map((part) => Number.parseFloat(part));
+  if (parts.length < 3 || parts.some((part) => Number.isNaN(part))) return undefined;
+  return { rgb: [parts[0], parts[1], parts[2]], alpha: parts.length > 3 ? parts[3] : 1 };
+}
+
+/**
+ * Source-over compositing of a colour with the given opacity onto an opaque
+ * background.
+ */
+export function compositeColor(foreground: Rgb, opacity: number, background: Rgb): Rgb {
+  const alpha = Math.min(1, Math.max(0, opacity));
+  return foreground.map((channel, index) => channel * alpha + background[index] * (1 - alpha)) as Rgb;
+}
+
+/** Relative luminance as defined by WCAG 2.x. */
+export function relativeLuminance([r, g, b]: Rgb): number {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/** WCAG 2.x contrast ratio between two opaque colours, from 1 to 21. */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * WCAG large text: at least 24px, or 18.66px (14pt) when bold.
+ */
+export function isLargeText(textStyle?: TextStyleSpec): boolean {
+  if (!textStyle) return false;
+  return textStyle.fontSize >= 24 || (textStyle.fontSize >= 18.66 && (textStyle.fontWeight ?? 400) >= 700);
+}
+
+/**
+ * Paints a stack of fills onto an opaque background, bottom to top. Returns
+ * undefined when a fill has no single colour (images) or an unknown colour.
+ */
+function paintFills(fills: FillSpec[], background: Rgb, spec: ComponentSpec): Rgb | undefined {
+  let result = background;
+  for (const fill of fills) {
+    const primary = getPrimaryFillColor(fill);
+    const resolved = primary && resolveColor(primary.color, spec.styleTokens);
+    const color = resolved ? parseRgba(resolved) : undefined;
+    if (!primary || !color) return undefined;
+    const opacity = color.alpha * (primary.opacity ?? 1) * (fill === primary ? 1 : fill.opacity ?? 1);
+    result = compositeColor(color.rgb, opacity, result);
+  }
+  return result;
+}
+
+function resolveCombination(spec: ComponentSpec, combination: VariantCombination): ResolvedCombination {
+  const elements = new Map<ElementSpec, ResolvedElementStyle>();
+  flattenElements(spec.structure).forEach((element) => {
+    elements.set(element, { fills: element.fills, size: element.size, visible: element.defaultVisible !== false });
+  });
+  let rootText: TextStyleSpec | undefined;
+  const rootLayout: LayoutOverrideSpec = {};
+  let rootLayoutPath: string | undefined;
+  const apply = (style: StyleSpec, path: string) => {
+    const root = elements.get(spec.structure)!;
+    if (style.fills) Object.assign(root, { fills: style.fills, fillsPath: `${path}.fills` });
+    if (style.textStyle) rootText = resolveTextStyle(style.textStyle, spec.styleTokens) ?? rootText;
+    if (style.layout) rootLayoutPath = `${path}.layout`;
+    if (style.layout?.autolayout) rootLayout.autolayout = { ...rootLayout.autolayout, ...style.layout.autolayout };
+    if (style.layout?.size) rootLayout.size = { ...rootLayout.size, ...style.layout.size };
+    Object.entries(style.elements ?? {}).forEach(([key, elementStyle]) => {
+      const target = resolveStyleTarget(spec.structure, key);
+      const resolved = target && elements.get(target);
+      if (!resolved) return;
+      if (elementStyle.fills) {
+        Object.assign(resolved, { fills: elementStyle.fills, fillsPath: joinPath(joinPath(`${path}.elements`, key), 'fills') });
+      }
+      if (elementStyle.textStyle) {
+        resolved.textStyle = resolveTextStyle(elementStyle.textStyle, spec.styleTokens) ?? resolved.textStyle;
+      }
+      if (typeof elementStyle.visible === 'boolean') resolved.visible = elementStyle.visible;
+      if (elementStyle.layout?.size) resolved.size = { ...resolved.size, ...elementStyle.layout.size };
+    });
+  };
+  if (spec.baseStyle) apply(spec.baseStyle, 'baseStyle');
+  resolveStatesForCombination(spec.states, combination).forEach((state) =>
+    apply(state.style, `states[${spec.states.indexOf(state)}].style`),
+  );
+  elements.forEach((resolved, element) => {
+    if (!variantMatchesSelector(combination, element.visibleWhen)) resolved.visible = false;
+    // Text elements inherit the root text style, as in the exported CSS.
+    if (element.type === 'TEXT') resolved.textStyle = resolved.textStyle ?? rootText;
+  });
+  return { elements, rootLayout, rootLayoutPath };
+}
+
+/** The chain of elements from the root down to the element with the given id. */
+function findAncestry(element: ElementSpec, id: string): ElementSpec[] | undefined {
+  if (element.id === id) return [element];
+  for (const child of element.children ?? []) {
+    const path = findAncestry(child, id);
+    if (path) return [element, ...path];
+  }
+  return undefined;
+}
+
+function toFourSides(padding: FourSideSize | number): FourSideSize {
+  return typeof padding === 'number' ? [padding, padding, padding, padding] : padding;
+}
+
+/**
+ * Estimates the rendered size of an element along one axis from fixed sizes,
+ * padding, gaps and text line heights. Undefined when the size depends on
+ * something the spec does not pin down, such as the width of a text or fill
+ * sizing.
+ */
+function estimateSize(
+  element: ElementSpec,
+  axis: Axis,
+  resolved: ResolvedCombination,
+  isRoot: boolean,
+): number | undefined {
+  const own = resolved.elements.get(element)?.size;
+  const size = isRoot ? { ...own, ...resolved.rootLayout.size } : own;
+  const minimum = axis === 'horizontal' ? size?.minWidth : size?.minHeight;
+  const withMinimum = (value: number | undefined) =>
+    typeof minimum === 'number' ? Math.max(value ?? 0, minimum) : value;
+  const mode = getSizingMode(size, axis, element.type === 'TEXT' || (element.type === 'FRAME' && !!element.layout));
+  if (mode === 'FIXED') return withMinimum(axis === 'horizontal' ? size?.width : size?.height);
+  if (mode === 'FILL') return withMinimum(undefined);
+  if (element.type === 'TEXT') {
+    if (axis === 'horizontal') return withMinimum(undefined);
+    const textStyle = resolved.elements.get(element)?.textStyle;
+    return withMinimum(textStyle ? textStyle.lineHeight ?? textStyle.fontSize * 1.2 : undefined);
+  }
+  const layout = element.layout!;
+  const override = isRoot ? resolved.rootLayout.autolayout : undefined;
+  const [top, right, bottom, left] = toFourSides(override?.padding ?? layout.padding);
+  const children = (element.children ?? []).filter(
+    (child) => !child.position && resolved.elements.get(child)?.visible,
+  );
+  const sizes = children.map((child) => estimateSize(child, axis, resolved, false));
+  if (sizes.some((value) => typeof value === 'undefined')) return withMinimum(undefined);
+  const values = sizes as number[];
+  const content =
+    getPrimaryAxis(layout.direction) === axis
+      ? values.reduce((sum, value) => sum + value, 0) + Math.max(0, values.length - 1) * (override?.gap ?? layout.gap)
+      : Math.max(0, ...values);
+  return withMinimum(content + (axis === 'horizontal' ? left + right : top + bottom));
+}
+
+function formatRatio(ratio: number): string {
+  return `${Math.floor(ratio * 100) / 100}:1`;
+}
+
+function isInteractiveState(name: string): boolean {
+  return INTERACTIVE_STATES.includes(name.trim().toLowerCase());
+}
+
+/**
+ * Whether the spec describes something users interact with: one of its
+ * variant values or state names is an interaction state such as hover.
+ */
+export function isInteractiveSpec(spec: ComponentSpec): boolean {
+  return (
+    spec.variantGroups.some((group) => group.values.some(isInteractiveState)) ||
+    spec.states.some((state) => isInteractiveState(state.name))
+  );
+}
+
+/**
+ * Checks every generated combination for WCAG issues: text colour contrast
+ * against the nearest filled ancestors, targets smaller than
+ * `MIN_TARGET_SIZE` and interactive specs without a focus state. All findings
+ * are warnings that name the combination and point at the style behind them.
+ */
+export function findAccessibilityIssues(spec: ComponentSpec): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const interactive = isInteractiveSpec(spec);
+  const textElements = flattenElements(spec.structure).filter((element) => element.type === 'TEXT');
+
+  getSpecCombinations(spec).forEach((combination) => {
+    const resolved = resolveCombination(spec, combination);
+    const name = describeCombination(combination) || 'the component';
+
+    textElements.forEach((element) => {
+      const ancestry = findAncestry(spec.structure, element.id) ?? [element];
+      if (ancestry.some((item) => !resolved.elements.get(item)?.visible)) return;
+      const style = resolved.elements.get(element)!;
+      // Figma draws text without fills in black; an empty list hides it.
+      const textFills = style.fills ?? [{ type: 'SOLID', color: '#000000' }];
+      if (!textFills.length) return;
+      const background = ancestry
+        .slice(0, -1)
+        .reduce<Rgb | undefined>(
+          (color, ancestor) => color && paintFills(resolved.elements.get(ancestor)!.fills ?? [], color, spec),
+          [255, 255, 255],
+        );
+      const foreground = background && paintFills(textFills, background, spec);
+      if (!background || !foreground) return;
+      const ratio = contrastRatio(foreground, background);
+      const large = isLargeText(style.textStyle);
+      const required = large ? MIN_LARGE_TEXT_CONTRAST : MIN_TEXT_CONTRAST;
+      if (ratio >= required) return;
+      // Point at the state that set the text colour, else at the background.
+      const filled = ancestry
+        .slice(0, -1)
+        .reverse()
+        .find((item) => resolved.elements.get(item)!.fills?.length);
+      const source = style.fillsPath ? element : filled ?? element;
+      issues.push({
+        code: 'a11y.contrast',
+        message: `Text "${element.name}" has a contrast ratio of ${formatRatio(ratio)} in ${name}; WCAG AA requires ${required}:1${
+          large ? ' for large text' : ''
+        }.`,
+        hint: 'Darken or lighten the text or background fill, or raise the text opacity.',
+        path: resolved.elements.get(source)!.fillsPath ?? joinPath(joinPath('structure', source.id), 'fills'),
+      });
+    });
+
+    if (!interactive) return;
+    const width = estimateSize(spec.structure, 'horizontal', resolved, true);
+    const height = estimateSize(spec.structure, 'vertical', resolved, true);
+    const small = [width, height].some((value) => typeof value === 'number' && value < MIN_TARGET_SIZE);
+    if (small) {
+      issues.push({
+        code: 'a11y.target.size',
+        message: `The target in ${name} is about ${width === undefined ? '?' : Math.round(width)}×${
+          height === undefined ? '?' : Math.round(height)
+        }px, below the ${MIN_TARGET_SIZE}×${MIN_TARGET_SIZE}px minimum.`,
+        hint: 'Increase the padding or set a minimum width and height on the root element.',
+        path: resolved.rootLayoutPath ?? joinPath(joinPath('structure', spec.structure.id), 'layout'),
+      });
+    }
+  });
+
+  const hasFocus =
+    spec.variantGroups.some((group) => group.values.some((value) => /focus/i.test(value))) ||
+    spec.states.some((state) => /focus/i.test(state.name));
+  if (interactive && !hasFocus) {
+    const stateGroup = spec.variantGroups.findIndex((group) => group.values.some(isInteractiveState));
+    issues.push({
+      code: 'a11y.focus.missing',
+      message: `"${spec.name}" has no focus state, so keyboard users cannot see which element is focused.`,
+      hint: 'Add a "focus" variant value with a state that draws a visible focus ring.',
+      path: stateGroup === -1 ? undefined : `variantGroups[${stateGroup}].values`,
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,172 @@
+import {
+  ElementStyleSpec,
+  LayoutOverrideSpec,
+  StateSpec,
+  StyleSpec,
+  VariantCombination,
+  VariantGroupSpec,
+  VariantSelector,
+} from '../types';
+import { generateVariantCombinations } from './spec';
+
+/**
+ * Style snapshot of a single variant captured from the canvas. `root` holds the
+ * component-level style, `elements` the style of each descendant keyed by the
+ * element id assigned to it in the captured structure.
+ */
+export interface CapturedVariant {
+  combination: VariantCombination;
+  root: ElementStyleSpec;
+  layout?: LayoutOverrideSpec;
+  elements: Record<string, ElementStyleSpec>;
+}
+
+const ELEMENT_STYLE_KEYS: (keyof ElementStyleSpec)[] = [
+  'fills',
+  'strokes',
+  'cornerRadius',
+  'effects',
+  'textStyle',
+  'visible',
+];
+
+/**
+ * Converts a Figma RGB colour (channels in the 0-1 range) into a six digit HEX
+ * string.
+ */
+export function toHexColor(color: { r: number; g: number; b: number }): string {
+  const channel = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * 255)
+      .toString(16)
+      .padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+/**
+ * Turns a Figma layer or property name into an identifier usable as element id
+ * or property key, e.g. "Icon/Left" → "icon-left".
+ */
+export function toIdentifier(name: string): string {
+  const slug = name
+    .replace(/#.*$/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'node';
+}
+
+/**
+ * Turns a Figma component property name into a camelCase property key, e.g.
+ * "Leading Icon#12:4" → "leadingIcon".
+ */
+export function toPropKey(name: string): string {
+  const words = name
+    .replace(/#.*$/, '')
+    .trim()
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  if (!words.length) return 'prop';
+  return words
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1),
+    )
+    .join('');
+}
+
+/**
+ * Returns a copy of `id` that is not yet part of `taken`, appending a numeric
+ * suffix when needed. The returned id is registered in the set.
+ */
+export function reserveIdentifier(id: string, taken: Set<string>): string {
+  let candidate = id;
+  let counter = 2;
+  while (taken.has(candidate)) {
+    candidate = `${id}-${counter}`;
+    counter += 1;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Returns the properties of `variant` whose value differs from `base`. Missing
+ * properties on the variant are ignored because the generator only applies
+ * what a state declares.
+ */
+export function diffElementStyle(
+  base: ElementStyleSpec,
+  variant: ElementStyleSpec,
+): ElementStyleSpec | undefined {
+  const diff: ElementStyleSpec = {};
+  ELEMENT_STYLE_KEYS.forEach((key) => {
+    const value = variant[key];
+    if (typeof value === 'undefined') return;
+    if (JSON.stringify(value) !== JSON.stringify(base[key])) {
+      (diff as any)[key] = value;
+    }
+  });
+  return Object.keys(diff).length ? diff : undefined;
+}
+
+function diffLayout(
+  base?: LayoutOverrideSpec,
+  variant?: LayoutOverrideSpec,
+): LayoutOverrideSpec | undefined {
+  if (!variant) return undefined;
+  const diff: LayoutOverrideSpec = {};
+  if (variant.autolayout && JSON.stringify(variant.autolayout) !== JSON.stringify(base?.autolayout)) {
+    diff.autolayout = variant.autolayout;
+  }
+  if (variant.size && JSON.stringify(variant.size) !== JSON.stringify(base?.size)) {
+    diff.size = variant.size;
+  }
+  return diff.autolayout || diff.size ? diff : undefined;
+}
+
+/**
+ * Builds one `StateSpec` per captured variant containing only the style that
+ * differs from the base variant. Every variant yields a state (possibly with an
+ * empty style) so the inspector can address each combination.
+ */
+export function buildCapturedStates(variants: CapturedVariant[], base: CapturedVariant): StateSpec[] {
+  return variants.map((variant) => {
+    const style: StyleSpec = {};
+    const rootDiff = diffElementStyle(base.root, variant.root);
+    if (rootDiff) {
+      const { visible, ...rest } = rootDiff;
+      Object.assign(style, rest);
+    }
+    const layout = diffLayout(base.layout, variant.layout);
+    if (layout) {
+      style.layout = layout;
+    }
+    Object.entries(variant.elements).forEach(([elementId, elementStyle]) => {
+      const diff = diffElementStyle(base.elements[elementId] ?? {}, elementStyle);
+      if (diff) {
+        style.elements = style.elements ?? {};
+        style.elements[elementId] = diff;
+      }
+    });
+    const entries = Object.entries(variant.combination);
+    return {
+      name: entries.length ? entries.map(([, value]) => value).join('-') : 'default',
+      label: entries.length ? entries.map(([group, value]) => `${group}=${value}`).join(', ') : undefined,
+      appliesTo: entries.length ? { ...variant.combination } : undefined,
+      style,
+    };
+  });
+}
+
+/**
+ * Selectors for the combinations of the groups that have no captured variant,
+ * so a sparse component set is captured as a spec excluding them.
+ */
+export function findMissingCombinations(groups: VariantGroupSpec[], variants: CapturedVariant[]): VariantSelector[] {
+  return generateVariantCombinations(groups).filter(
+    (combination) =>
+      !variants.some((variant) =>
+        Object.entries(combination).every(([group, value]) => variant.combination[group] === value),
+      ),
+  );
+}
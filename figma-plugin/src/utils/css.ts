@@ -0,0 +1,406 @@
+import {
+  AbsolutePositionSpec,
+  AutoLayoutSpec,
+  ColorValue,
+  CornerRadiusSpec,
+  DesignTokensRef,
+  EffectSpec,
+  ElementSpec,
+  ElementStyleSpec,
+  FillSpec,
+  FourSideSize,
+  GradientFillSpec,
+  ImageFillSpec,
+  LayoutOverrideSpec,
+  NodeKind,
+  SizeSpec,
+  StrokeAlign,
+  StrokeSpec,
+  TextAutoResize,
+  TextStyleValue,
+} from '../types';
+import { toIdentifier } from './capture';
+import { CounterAlignment, getCounterAlignment, isWrapping, OVERRIDE_ALIGNMENT } from './layout';
+import { getGradientAngle, getPrimaryFillColor, imageFillToDataUri, isGradientFill } from './paints';
+import { Axis, getPrimaryAxis, LayoutDirection, resolveChildSizing, resolveTextAutoResize } from './sizing';
+import { flattenElements } from './spec';
+import { isTokenRef, resolveColor, resolveTextStyle } from './tokens';
+
+/**
+ * Ordered CSS declarations keyed by property name. Assigning a property again
+ * replaces the earlier value, mirroring how later states override earlier
+ * ones in the generator.
+ */
+export type CssDeclarations = Record<string, string>;
+
+type Alignment = AutoLayoutSpec['alignment'];
+
+/**
+ * Converts a spec colour into a CSS colour. Token references become custom
+ * properties named after the token with the resolved value as fallback, e.g.
+ * `var(--color-brand-primary, #1f5af6)`.
+ */
+export function toCssColor(value: ColorValue, opacity: number | undefined, tokens?: DesignTokensRef): string {
+  const resolved = resolveColor(value, tokens) ?? 'transparent';
+  const color = withOpacity(resolved, opacity);
+  if (isTokenRef(value) && color === resolved) {
+    return `var(--${toIdentifier(value.token)}, ${resolved})`;
+  }
+  return color;
+}
+
+function withOpacity(color: string, opacity?: number): string {
+  if (typeof opacity !== 'number' || opacity >= 1) return color;
+  const hex = color.trim().match(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/);
+  if (!hex) return color;
+  const digits = hex[1].length === 3 ? hex[1].replace(/./g, (char) => char + char) : hex[1];
+  const r = parseInt(digits.slice(0, 2), 16);
+  const g = parseInt(digits.slice(2, 4), 16);
+  const b = parseInt(digits.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+function toPadding(padding: FourSideSize | number): string {
+  const sides = Array.isArray(padding) ? padding : [padding, padding, padding, padding];
+  return sides.map((side) => `${side}px`).join(' ');
+}
+
+function mapJustify(alignment: Alignment): string {
+  switch (alignment) {
+    case 'CENTER':
+      return 'center';
+    case 'END':
+      return 'flex-end';
+    case 'SPACE_BETWEEN':
+      return 'space-between';
+    default:
+      return 'flex-start';
+  }
+}
+
+function mapCounterAlign(alignment: CounterAlignment): string {
+  return alignment === 'BASELINE' ? 'baseline' : mapJustify(alignment);
+}
+
+/**
+ * Wrapping layouts use `gap` between items and `rowGap` between rows, which
+ * CSS writes as `gap: <row> <column>`; rows pack at the start as in Figma.
+ */
+export function autoLayoutToCss(layout: AutoLayoutSpec): CssDeclarations {
+  const wrap = isWrapping(layout);
+  const declarations: CssDeclarations = {
+    'flex-direction': layout.direction === 'HORIZONTAL' ? 'row' : 'column',
+    gap: wrap ? `${layout.rowGap ?? layout.gap}px ${layout.gap}px` : `${layout.gap}px`,
+    padding: toPadding(layout.padding),
+    'justify-content': mapJustify(layout.alignment),
+    'align-items': mapCounterAlign(getCounterAlignment(layout)),
+  };
+  if (wrap) {
+    declarations['flex-wrap'] = 'wrap';
+    declarations['align-content'] = 'flex-start';
+  }
+  return declarations;
+}
+
+/**
+ * Absolute positioning relative to the parent, which `elementToCss` makes a
+ * containing block.
+ */
+export function positionToCss(position: AbsolutePositionSpec): CssDeclarations {
+  const declarations: CssDeclarations = { position: 'absolute' };
+  (['top', 'right', 'bottom', 'left'] as const).forEach((side) => {
+    if (typeof position[side] === 'number') declarations[side] = `${position[side]}px`;
+  });
+  return declarations;
+}
+
+/**
+ * Where an element sits when mapping its size: its kind, and the direction of
+ * the parent's auto layout if it has a parent.
+ */
+export interface SizeContext {
+  type?: NodeKind;
+  parentDirection?: LayoutDirection;
+}
+
+const TEXT_AUTO_RESIZE: Record<TextAutoResize, CssDeclarations> = {
+  WIDTH_AND_HEIGHT: { 'white-space': 'nowrap' },
+  HEIGHT: { 'white-space': 'normal' },
+  NONE: { 'white-space': 'normal', overflow: 'hidden' },
+  TRUNCATE: { 'white-space': 'nowrap', overflow: 'hidden', 'text-overflow': 'ellipsis' },
+};
+
+/**
+ * Maps sizes onto flexbox. Explicit hug modes reset the dimension to the
+ * content size; fill grows the element along the parent's direction and
+ * stretches it across, like `layoutGrow` and `layoutAlign` in Figma. Without
+ * a known parent, fill takes the full size of the container.
+ */
+export function sizeToCss(size: SizeSpec, context: SizeContext = {}): CssDeclarations {
+  const declarations: CssDeclarations = {};
+  if (typeof size.width === 'number') declarations.width = `${size.width}px`;
+  if (typeof size.height === 'number') declarations.height = `${size.height}px`;
+  if (typeof size.minWidth === 'number') declarations['min-width'] = `${size.minWidth}px`;
+  if (typeof size.minHeight === 'number') declarations['min-height'] = `${size.minHeight}px`;
+  if (typeof size.maxWidth === 'number') declarations['max-width'] = `${size.maxWidth}px`;
+  if (typeof size.maxHeight === 'number') declarations['max-height'] = `${size.maxHeight}px`;
+  (['horizontal', 'vertical'] as Axis[]).forEach((axis) => {
+    const property = axis === 'horizontal' ? 'width' : 'height';
+    const mode = axis === 'horizontal' ? size.horizontalSizing : size.verticalSizing;
+    if (mode === 'HUG') declarations[property] = 'auto';
+    if (mode === 'FILL' && !context.parentDirection) declarations[property] = '100%';
+  });
+  if (context.parentDirection) {
+    const { layoutGrow, layoutAlign } = resolveChildSizing(size, context.parentDirection);
+    if (layoutGrow > 0) {
+      declarations.flex = `${layoutGrow} 1 0`;
+      delete declarations[getPrimaryAxis(context.parentDirection) === 'horizontal' ? 'width' : 'height'];
+    }
+    if (layoutAlign === 'STRETCH') {
+      declarations['align-self'] = 'stretch';
+      delete declarations[getPrimaryAxis(context.parentDirection) === 'horizontal' ? 'height' : 'width'];
+    }
+  }
+  if (context.type === 'TEXT' && (size.textAutoResize || size.horizontalSizing || size.verticalSizing)) {
+    Object.assign(declarations, TEXT_AUTO_RESIZE[resolveTextAutoResize(size)]);
+  }
+  return declarations;
+}
+
+/**
+ * Converts a state layout override. Like `mergeAutoLayoutOverride`, it only
+ * sets what the override sets, and `align` only moves the main axis.
+ */
+export function layoutOverrideToCss(override: LayoutOverrideSpec): CssDeclarations {
+  const declarations: CssDeclarations = {};
+  if (override.autolayout) {
+    const { gap, padding, align } = override.autolayout;
+    if (typeof gap === 'number') declarations.gap = `${gap}px`;
+    if (typeof padding !== 'undefined') declarations.padding = toPadding(padding);
+    if (align) declarations['justify-content'] = mapJustify(OVERRIDE_ALIGNMENT[align]);
+  }
+  if (override.size) {
+    Object.assign(declarations, sizeToCss(override.size));
+  }
+  return declarations;
+}
+
+function cornerRadiusToCss(radius: CornerRadiusSpec): string {
+  if (typeof radius === 'number') return `${radius}px`;
+  return `${radius.tl}px ${radius.tr}px ${radius.br}px ${radius.bl}px`;
+}
+
+function gradientToCss(fill: GradientFillSpec, tokens?: DesignTokensRef): string {
+  const stops = fill.stops
+    .map((stop) => {
+      const opacity = (stop.opacity ?? 1) * (fill.opacity ?? 1);
+      return `${toCssColor(stop.color, opacity, tokens)} ${Math.round(stop.position * 1000) / 10}%`;
+    })
+    .join(', ');
+  switch (fill.type) {
+    case 'GRADIENT_RADIAL':
+      return `radial-gradient(closest-side, ${stops})`;
+    case 'GRADIENT_ANGULAR':
+      return `conic-gradient(from ${getGradientAngle(fill)}deg, ${stops})`;
+    default:
+      return `linear-gradient(${getGradientAngle(fill)}deg, ${stops})`;
+  }
+}
+
+const IMAGE_SIZES: Record<ImageFillSpec['scaleMode'], string> = {
+  FILL: 'center / cover no-repeat',
+  CROP: 'center / cover no-repeat',
+  FIT: 'center / contain no-repeat',
+  TILE: 'top left / auto repeat',
+};
+
+/**
+ * Figma paints list the bottom layer first while CSS backgrounds list the top
+ * layer first, so the fills are reversed. Only the bottom layer may be a plain
+ * colour, so solid fills above it are expressed as flat gradients.
+ */
+export function fillsToBackground(fills: FillSpec[], tokens?: DesignTokensRef): string {
+  if (!fills.length) return 'transparent';
+  const layers = [...fills].reverse().map((fill, index, all) => {
+    if (fill.type === 'SOLID') {
+      const color = toCssColor(fill.color, fill.opacity, tokens);
+      return index === all.length - 1 ? color : `linear-gradient(${color}, ${color})`;
+    }
+    if (isGradientFill(fill)) return gradientToCss(fill, tokens);
+    return `url("${imageFillToDataUri(fill)}") ${IMAGE_SIZES[fill.scaleMode]}`;
+  });
+  return layers.join(', ');
+}
+
+const OUTLINE_OFFSET: Record<StrokeAlign, (weight: number) => number> = {
+  INSIDE: (weight) => -weight,
+  CENTER: (weight) => -weight / 2,
+  OUTSIDE: () => 0,
+};
+
+/**
+ * Uniform strokes become an outline, which like a Figma stroke does not affect
+ * the box size; the offset places it inside, centred on or outside the edge.
+ * Outlines cannot vary per side, so per-side weights become borders instead.
+ * Dash patterns map to a dashed line since CSS cannot express exact lengths.
+ */
+export function strokesToCss(strokes: StrokeSpec[], tokens?: DesignTokensRef): CssDeclarations {
+  const stroke = strokes[strokes.length - 1];
+  if (!stroke) return { outline: 'none' };
+  const lineStyle = stroke.dashPattern?.length ? 'dashed' : 'solid';
+  const color = toCssColor(stroke.color, stroke.opacity, tokens);
+  if (stroke.sideWeights) {
+    const { top, right, bottom, left } = stroke.sideWeights;
+    return {
+      outline: 'none',
+      'border-style': lineStyle,
+      'border-color': color,
+      'border-width': `${top}px ${right}px ${bottom}px ${left}px`,
+    };
+  }
+  return {
+    outline: `${stroke.weight}px ${lineStyle} ${color}`,
+    'outline-offset': `${OUTLINE_OFFSET[stroke.strokeAlign ?? 'INSIDE'](stroke.weight)}px`,
+  };
+}
+
+function effectsToCss(effects: EffectSpec[], tokens?: DesignTokensRef): CssDeclarations {
+  const shadows: string[] = [];
+  const filters: string[] = [];
+  const backdrop: string[] = [];
+  effects.forEach((effect) => {
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+      shadows.push(
+        `${inset}${effect.offset.x}px ${effect.offset.y}px ${effect.radius}px ${effect.spread ?? 0}px ${toCssColor(
+          effect.color,
+          effect.opacity,
+          tokens,
+        )}`,
+      );
+    } else if (effect.type === 'LAYER_BLUR') {
+      filters.push(`blur(${effect.radius}px)`);
+    } else {
+      backdrop.push(`blur(${effect.radius}px)`);
+    }
+  });
+  const declarations: CssDeclarations = { 'box-shadow': shadows.length ? shadows.join(', ') : 'none' };
+  if (filters.length) declarations.filter = filters.join(' ');
+  if (backdrop.length) declarations['backdrop-filter'] = backdrop.join(' ');
+  return declarations;
+}
+
+function textStyleToCss(value: TextStyleValue, tokens?: DesignTokensRef): CssDeclarations {
+  const style = resolveTextStyle(value, tokens);
+  if (!style) return {};
+  const declarations: CssDeclarations = {
+    'font-family': `'${style.fontFamily}', sans-serif`,
+    'font-size': `${style.fontSize}px`,
+    'font-weight': `${style.fontWeight ?? 400}`,
+  };
+  if (typeof style.lineHeight === 'number') declarations['line-height'] = `${style.lineHeight}px`;
+  if (typeof style.letterSpacing === 'number') declarations['letter-spacing'] = `${style.letterSpacing / 100}em`;
+  return declarations;
+}
+
+/**
+ * Converts the paint, corner, effect, typography, visibility and layout
+ * properties of a style onto CSS. Fills of text nodes become the text colour.
+ */
+export function styleToCss(style: ElementStyleSpec, kind: NodeKind, tokens?: DesignTokensRef): CssDeclarations {
+  const declarations: CssDeclarations = {};
+  if (style.fills) {
+    if (kind === 'TEXT') {
+      const top = style.fills.length ? getPrimaryFillColor(style.fills[style.fills.length - 1]) : undefined;
+      declarations.color = top ? toCssColor(top.color, top.opacity, tokens) : 'transparent';
+    } else {
+      declarations.background = fillsToBackground(style.fills, tokens);
+    }
+  }
+  if (style.strokes) Object.assign(declarations, strokesToCss(style.strokes, tokens));
+  if (typeof style.cornerRadius !== 'undefined') {
+    declarations['border-radius'] = cornerRadiusToCss(style.cornerRadius);
+  }
+  if (style.effects) Object.assign(declarations, effectsToCss(style.effects, tokens));
+  if (style.textStyle) Object.assign(declarations, textStyleToCss(style.textStyle, tokens));
+  if (typeof style.visible === 'boolean') {
+    declarations.display = style.visible ? displayFor(kind) : 'none';
+  }
+  if (style.layout) Object.assign(declarations, layoutOverrideToCss(style.layout));
+  return declarations;
+}
+
+function displayFor(kind: NodeKind): string {
+  return kind === 'TEXT' ? 'inline-block' : 'flex';
+}
+
+/**
+ * Declarations for an element as defined in the structure, before base styles
+ * and states are applied. The root hugs its content like the generated
+ * component; `parent` resolves fill sizing against its auto layout.
+ */
+export function elementToCss(
+  element: ElementSpec,
+  isRoot: boolean,
+  tokens?: DesignTokensRef,
+  parent?: ElementSpec,
+): CssDeclarations {
+  const declarations: CssDeclarations = {
+    'box-sizing': 'border-box',
+    display: element.defaultVisible === false ? 'none' : isRoot ? 'inline-flex' : displayFor(element.type),
+  };
+  if (element.type === 'ELLIPSE') declarations['border-radius'] = '50%';
+  if (element.layout) Object.assign(declarations, autoLayoutToCss(element.layout));
+  if (element.children?.some((child) => child.position)) declarations.position = 'relative';
+  if (element.position && !isRoot) Object.assign(declarations, positionToCss(element.position));
+  if (element.size) {
+    const parentDirection = parent?.layout?.direction;
+    Object.assign(declarations, sizeToCss(element.size, { type: element.type, parentDirection }));
+  }
+  Object.assign(
+    declarations,
+    styleToCss(
+      {
+        fills: element.fills,
+        strokes: element.strokes,
+        cornerRadius: element.cornerRadius,
+        effects: element.effects,
+      },
+      element.type,
+      tokens,
+    ),
+  );
+  return declarations;
+}
+
+/**
+ * Resolves the key of a `StyleSpec.elements` entry to an element, by id first
+ * and then by role, the same way the generator looks up nodes.
+ */
+export function resolveStyleTarget(structure: ElementSpec, key: string): ElementSpec | undefined {
+  const elements = flattenElements(structure);
+  return elements.find((element) => element.id === key) ?? elements.find((element) => element.role === key);
+}
+
+/**
+ * CSS class names used by the code exporters: a block class for the component
+ * and an element class per structure node.
+ */
+export function toBlockClass(componentName: string): string {
+  return `cf-${toIdentifier(componentName)}`;
+}
+
+export function toElementClass(block: string, element: ElementSpec): string {
+  return `${block}__${toIdentifier(element.id)}`;
+}
+
+export function toVariantAttribute(groupName: string): string {
+  return `data-${toIdentifier(groupName)}`;
+}
+
+export function formatCssRule(selector: string, declarations: CssDeclarations): string {
+  const body = Object.entries(declarations)
+    .map(([property, value]) => `  ${property}: ${value};`)
+    .join('\n');
+  return `${selector} {\n${body}\n}`;
+}
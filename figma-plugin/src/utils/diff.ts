@@ -0,0 +1,68 @@
+import { joinPath } from './schema';
+
+/**
+ * One difference between two values. `before` is undefined for additions and
+ * `after` for removals; `path` uses the notation of validation paths, e.g.
+ * `states[1].appliesTo.state`.
+ */
+export interface ValueChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Indexes of the items of `longer` that are missing from `shorter`, when
+ * `shorter` is `longer` with some items taken out; undefined otherwise.
+ */
+function findRemovedIndexes(longer: unknown[], shorter: unknown[]): number[] | undefined {
+  const removed: number[] = [];
+  let next = 0;
+  longer.forEach((item, index) => {
+    if (next < shorter.length && isEqual(item, shorter[next])) {
+      next += 1;
+    } else {
+      removed.push(index);
+    }
+  });
+  return next === shorter.length ? removed : undefined;
+}
+
+/**
+ * Lists the leaf values that differ between two JSON values. Lists that only
+ * gained or lost items report those items instead of every shifted index.
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): ValueChange[] {
+  if (isEqual(before, after)) return [];
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const removed =
+      before.length > after.length
+        ? findRemovedIndexes(before, after)
+        : before.length < after.length
+          ? findRemovedIndexes(after, before)
+          : undefined;
+    if (removed) {
+      return removed.map((index) =>
+        before.length > after.length
+          ? { path: joinPath(path, index), before: before[index] }
+          : { path: joinPath(path, index), after: after[index] },
+      );
+    }
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, index) =>
+      diffValues(before[index], after[index], joinPath(path, index)),
+    ).flat();
+  }
+  if (isRecord(before) && isRecord(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffValues(before[key], after[key], joinPath(path, key)));
+  }
+  return [{ path, before, after }];
+}
@@ -0,0 +1,269 @@
+import { DesignTokensRef, TextStyleSpec, ValidationIssue } from '../types';
+import { isValidColor } from './spec';
+
+/**
+ * Result of importing a W3C Design Tokens Community Group (DTCG) document.
+ */
+export interface DtcgImportResult {
+  tokens: DesignTokensRef;
+  warnings: ValidationIssue[];
+}
+
+interface FlatToken {
+  type?: string;
+  value: unknown;
+}
+
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  'extra-light': 200,
+  'ultra-light': 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  'semi-bold': 600,
+  'demi-bold': 600,
+  bold: 700,
+  'extra-bold': 800,
+  'ultra-bold': 800,
+  black: 900,
+  heavy: 900,
+};
+
+/**
+ * Detects whether parsed JSON is a DTCG token document rather than a
+ * component spec: it contains at least one `$value` and no spec structure.
+ */
+export function isDtcgDocument(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  if ('structure' in value && 'variantGroups' in value) return false;
+  const hasValue = (node: unknown): boolean => {
+    if (!node || typeof node !== 'object') return false;
+    if ('$value' in node) return true;
+    return Object.entries(node).some(([key, child]) => !key.startsWith('$') && hasValue(child));
+  };
+  return hasValue(value);
+}
+
+/**
+ * Flattens the token tree into dot-separated names, inheriting `$type` from
+ * parent groups as described by the DTCG format.
+ */
+function flattenTokens(node: Record<string, unknown>, prefix: string, inheritedType: string | undefined, out: Map<string, FlatToken>) {
+  const groupType = typeof node.$type === 'string' ? node.$type : inheritedType;
+  if ('$value' in node) {
+    out.set(prefix, { type: groupType, value: node.$value });
+    return;
+  }
+  Object.entries(node).forEach(([key, child]) => {
+    if (key.startsWith('$') || !child || typeof child !== 'object') return;
+    flattenTokens(child as Record<string, unknown>, prefix ? `${prefix}.${key}` : key, groupType, out);
+  });
+}
+
+/**
+ * Imports colour and typography tokens from a DTCG document. Aliases such as
+ * `{color.blue.500}` are resolved (including aliases nested inside composite
+ * typography values). Unsupported token types and unresolved aliases are
+ * reported as warnings.
+ */
+export function importDtcgTokens(document: Record<string, unknown>): DtcgImportResult {
+  const flat = new Map<string, FlatToken>();
+  flattenTokens(document, '', undefined, flat);
+  const warnings: ValidationIssue[] = [];
+  const colors: Record<string, string> = {};
+  const textStyles: Record<string, TextStyleSpec> = {};
+  const skipped = new Map<string, string[]>();
+
+  const resolveValue = (value: unknown, name: string, seen: string[] = []): unknown => {
+    if (typeof value === 'string') {
+      const alias = value.match(ALIAS_PATTERN);
+      if (alias) {
+        const target = alias[1];
+        if (seen.includes(target)) {
+          warnings.push({
+            code: 'token.alias.cycle',
+            message: `Token "${name}" has a circular alias: ${[...seen, target].join(' → ')}.`,
+            path: name,
+          });
+          return undefined;
+        }
+        const token = flat.get(target);
+        if (!token) {
+          warnings.push({
+            code: 'token.alias.unresolved',
+            message: `Token "${name}" references unknown token "${target}".`,
+            path: name,
+          });
+          return undefined;
+        }
+        return resolveValue(token.value, name, [...seen, target]);
+      }
+      return value;
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const resolved: Record<string, unknown> = {};
+      Object.entries(value).forEach(([key, child]) => {
+        resolved[key] = resolveValue(child, name, seen);
+      });
+      return resolved;
+    }
+    return value;
+  };
+
+  const cyclic = new Set<string>();
+  const resolveType = (token: FlatToken, name: string, seen: string[] = []): string | undefined => {
+    if (token.type) return token.type;
+    const alias = typeof token.value === 'string' ? token.value.match(ALIAS_PATTERN) : null;
+    if (!alias) return undefined;
+    const target = alias[1];
+    if (seen.includes(target)) {
+      cyclic.add(name);
+      warnings.push({
+        code: 'token.alias.cycle',
+        message: `Token "${name}" has a circular alias: ${[...seen, target].join(' → ')}.`,
+        path: name,
+      });
+      return undefined;
+    }
+    const targetToken = flat.get(target);
+    return targetToken ? resolveType(targetToken, name, [...seen, target]) : undefined;
+  };
+
+  flat.forEach((token, name) => {
+    const type = resolveType(token, name);
+    if (cyclic.has(name)) return;
+    const value = resolveValue(token.value, name);
+    if (typeof value === 'undefined') return;
+    if (type === 'color') {
+      const color = toColorString(value);
+      if (color) {
+        colors[name] = color;
+      } else {
+        warnings.push({
+          code: 'token.color.unsupported',
+          message: `Colour token "${name}" has a value that cannot be converted.`,
+          path: name,
+        });
+      }
+    } else if (type === 'typography') {
+      const textStyle = toTextStyle(value);
+      if (textStyle) {
+        textStyles[name] = textStyle;
+      } else {
+        warnings.push({
+          code: 'token.typography.unsupported',
+          message: `Typography token "${name}" is missing a font family or font size.`,
+          path: name,
+        });
+      }
+    } else {
+      const key = type ?? 'unknown';
+      skipped.set(key, [...(skipped.get(key) ?? []), name]);
+    }
+  });
+
+  skipped.forEach((names, type) => {
+    const preview = names.slice(0, 3).join(', ');
+    warnings.push({
+      code: 'token.type.unsupported',
+      message: `Skipped ${names.length} "${type}" token${names.length === 1 ? '' : 's'} (${preview}${
+        names.length > 3 ? ', …' : ''
+      }).`,
+      hint: 'Only colour and typography tokens are imported.',
+      path: names[0],
+    });
+  });
+
+  const tokens: DesignTokensRef = {};
+  if (Object.keys(colors).length) tokens.colors = colors;
+  if (Object.keys(textStyles).length) tokens.textStyles = textStyles;
+  return { tokens, warnings };
+}
+
+function toColorString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const hex8 = value.trim().match(/^#([0-9a-fA-F]{6})([0-9a-fA-F]{2})$/);
+    if (hex8) {
+      return toRgba(hex8[1], parseInt(hex8[2], 16) / 255);
+    }
+    return isValidColor(value) ? value.trim() : undefined;
+  }
+  if (value && typeof value === 'object' && typeof (value as { hex?: unknown }).hex === 'string') {
+    const { hex, alpha } = value as { hex: string; alpha?: number };
+    const base = toColorString(hex);
+    if (!base || typeof alpha !== 'number' || alpha >= 1) return base;
+    return toRgba(hex.replace('#', '').slice(0, 6), alpha);
+  }
+  return undefined;
+}
+
+function toRgba(hex: string, alpha: number): string {
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${Number(alpha.toFixed(2))})`;
+}
+
+/**
+ * Converts a DTCG dimension (`"14px"`, `"1rem"`, `{ value, unit }` or a bare
+ * number) into pixels.
+ */
+function toPixels(value: unknown, fontSize?: number): number | undefined {
+  if (typeof value === 'number') return value;
+  let amount: number | undefined;
+  let unit = 'px';
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?[\d.]+)\s*(px|rem|em)?$/);
+    if (!match) return undefined;
+    amount = Number(match[1]);
+    unit = match[2] ?? 'px';
+  } else if (value && typeof value === 'object') {
+    const dimension = value as { value?: unknown; unit?: unknown };
+    amount = typeof dimension.value === 'number' ? dimension.value : undefined;
+    unit = typeof dimension.unit === 'string' ? dimension.unit : 'px';
+  }
+  if (typeof amount === 'undefined' || Number.isNaN(amount)) return undefined;
+  if (unit === 'rem') return amount * 16;
+  if (unit === 'em') return amount * (fontSize ?? 16);
+  return amount;
+}
+
+function toFontWeight(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric;
+    return FONT_WEIGHT_NAMES[value.trim().toLowerCase().replace(/[\s_]+/g, '-')];
+  }
+  return undefined;
+}
+
+function toTextStyle(value: unknown): TextStyleSpec | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const composite = value as Record<string, unknown>;
+  const family = Array.isArray(composite.fontFamily) ? composite.fontFamily[0] : composite.fontFamily;
+  const fontSize = toPixels(composite.fontSize);
+  if (typeof family !== 'string' || typeof fontSize === 'undefined') return undefined;
+  const style: TextStyleSpec = { fontFamily: family, fontSize };
+  const fontWeight = toFontWeight(composite.fontWeight);
+  if (typeof fontWeight !== 'undefined') style.fontWeight = fontWeight;
+  // DTCG line heights are unitless multipliers of the font size.
+  if (typeof composite.lineHeight === 'number') {
+    style.lineHeight = Math.round(composite.lineHeight * fontSize * 100) / 100;
+  } else {
+    const lineHeight = toPixels(composite.lineHeight, fontSize);
+    if (typeof lineHeight !== 'undefined') style.lineHeight = lineHeight;
+  }
+  // TextStyleSpec letter spacing is expressed as a percentage of the font size.
+  const letterSpacing = toPixels(composite.letterSpacing, fontSize);
+  if (typeof letterSpacing !== 'undefined' && letterSpacing !== 0) {
+    style.letterSpacing = Math.round((letterSpacing / fontSize) * 10000) / 100;
+  }
+  return style;
+}
@@ -0,0 +1,98 @@
+/**
+ * A recorded edit: the value before the edit and a label describing it, e.g.
+ * "Changed hover → Label fill".
+ */
+export interface HistoryEntry<T> {
+  snapshot: T;
+  label: string;
+  /** Edits with the same key made in quick succession are merged. */
+  coalesceKey?: string;
+  time: number;
+}
+
+/**
+ * Undo/redo stacks. `past` holds the most recent edit last, `future` holds the
+ * most recently undone edit last.
+ */
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export interface HistoryChange {
+  label: string;
+  coalesceKey?: string;
+}
+
+export interface HistoryStep<T> {
+  history: HistoryState<T>;
+  value: T;
+  label: string;
+}
+
+export const HISTORY_LIMIT = 50;
+
+/** Edits to the same field within this window form a single history entry. */
+export const HISTORY_COALESCE_MS = 1000;
+
+export function createHistory<T>(): HistoryState<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Records an edit made to `previous` and clears the redo stack. Consecutive
+ * edits sharing a coalesce key (typing into one field) extend the last entry
+ * instead of adding a new one, so undo restores the value before typing began.
+ */
+export function recordHistory<T>(
+  history: HistoryState<T>,
+  previous: T,
+  change: HistoryChange,
+  time: number,
+): HistoryState<T> {
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    change.coalesceKey &&
+    last.coalesceKey === change.coalesceKey &&
+    !history.future.length &&
+    time - last.time <= HISTORY_COALESCE_MS
+  ) {
+    return { past: [...history.past.slice(0, -1), { ...last, label: change.label, time }], future: [] };
+  }
+  const entry: HistoryEntry<T> = { snapshot: previous, label: change.label, coalesceKey: change.coalesceKey, time };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Reverts the most recent edit. Returns null when there is nothing to undo.
+ */
+export function undoHistory<T>(history: HistoryState<T>, current: T): HistoryStep<T> | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, snapshot: current, coalesceKey: undefined }],
+    },
+    value: entry.snapshot,
+    label: entry.label,
+  };
+}
+
+/**
+ * Re-applies the most recently undone edit. Returns null when there is nothing
+ * to redo.
+ */
+export function redoHistory<T>(history: HistoryState<T>, current: T): HistoryStep<T> | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { ...entry, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+    value: entry.snapshot,
+    label: entry.label,
+  };
+}
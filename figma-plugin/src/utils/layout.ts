@@ -0,0 +1,89 @@
+import { AbsolutePositionSpec, AutoLayoutOverrideSpec, AutoLayoutSpec } from '../types';
+
+export type CounterAlignment = NonNullable<AutoLayoutSpec['counterAlignment']>;
+
+export type PositionConstraint = 'MIN' | 'MAX' | 'STRETCH';
+
+/**
+ * Placement of an absolutely positioned node within its parent, in the form
+ * Figma expects: coordinates, a size when stretched and the constraints that
+ * keep it pinned when the parent resizes.
+ */
+export interface AbsolutePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  constraints: { horizontal: PositionConstraint; vertical: PositionConstraint };
+}
+
+interface Box {
+  width: number;
+  height: number;
+}
+
+/**
+ * Alignment across the main axis. Layouts without an explicit counter
+ * alignment follow the main alignment and centre when it is space-between;
+ * baseline alignment falls back to start in vertical layouts.
+ */
+export function getCounterAlignment(layout: AutoLayoutSpec): CounterAlignment {
+  const alignment = layout.counterAlignment ?? (layout.alignment === 'SPACE_BETWEEN' ? 'CENTER' : layout.alignment);
+  return alignment === 'BASELINE' && layout.direction !== 'HORIZONTAL' ? 'START' : alignment;
+}
+
+export const OVERRIDE_ALIGNMENT: Record<NonNullable<AutoLayoutOverrideSpec['align']>, AutoLayoutSpec['alignment']> = {
+  start: 'START',
+  center: 'CENTER',
+  end: 'END',
+  'space-between': 'SPACE_BETWEEN',
+};
+
+/**
+ * Applies a style's auto layout override on top of a layout. Fields the
+ * override leaves out keep their values, and `align` only changes the main
+ * axis, so the counter alignment stays what it was before the override.
+ */
+export function mergeAutoLayoutOverride(layout: AutoLayoutSpec, override: AutoLayoutOverrideSpec): AutoLayoutSpec {
+  return {
+    ...layout,
+    counterAlignment: getCounterAlignment(layout),
+    gap: override.gap ?? layout.gap,
+    padding: override.padding ?? layout.padding,
+    alignment: override.align ? OVERRIDE_ALIGNMENT[override.align] : layout.alignment,
+  };
+}
+
+/**
+ * Whether the layout wraps; only horizontal layouts can.
+ */
+export function isWrapping(layout: AutoLayoutSpec): boolean {
+  return !!layout.wrap && layout.direction === 'HORIZONTAL';
+}
+
+function placeOnAxis(
+  start: number | undefined,
+  end: number | undefined,
+  parentSize: number,
+  size: number,
+): { offset: number; size: number; constraint: PositionConstraint } {
+  if (typeof start === 'number' && typeof end === 'number') {
+    return { offset: start, size: Math.max(0, parentSize - start - end), constraint: 'STRETCH' };
+  }
+  if (typeof end === 'number') {
+    return { offset: parentSize - end - size, size, constraint: 'MAX' };
+  }
+  return { offset: start ?? 0, size, constraint: 'MIN' };
+}
+
+export function resolveAbsolutePosition(position: AbsolutePositionSpec, parent: Box, node: Box): AbsolutePlacement {
+  const horizontal = placeOnAxis(position.left, position.right, parent.width, node.width);
+  const vertical = placeOnAxis(position.top, position.bottom, parent.height, node.height);
+  return {
+    x: horizontal.offset,
+    y: vertical.offset,
+    width: horizontal.size,
+    height: vertical.size,
+    constraints: { horizontal: horizontal.constraint, vertical: vertical.constraint },
+  };
+}
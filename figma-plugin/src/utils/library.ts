@@ -0,0 +1,61 @@
+import { ComponentSpec, SpecLibraryEntry } from '../types';
+
+/**
+ * Inserts or updates the library entry of `spec` and returns the new list,
+ * most recently updated first. The spec must already have an id. The node id
+ * of an existing entry is kept unless a new one is given.
+ */
+export function upsertLibraryEntry(
+  entries: SpecLibraryEntry[],
+  spec: ComponentSpec,
+  updatedAt: number,
+  nodeId?: string,
+): SpecLibraryEntry[] {
+  const previous = entries.find((item) => item.id === spec.id);
+  const entry: SpecLibraryEntry = { id: spec.id!, name: spec.name, template: spec.template, updatedAt };
+  const linkedNode = nodeId ?? previous?.nodeId;
+  if (linkedNode) entry.nodeId = linkedNode;
+  return sortLibraryEntries([entry, ...entries.filter((item) => item.id !== entry.id)]);
+}
+
+/**
+ * Reads the library index stored as JSON in the document. Malformed data
+ * yields an empty library rather than an error.
+ */
+export function parseLibraryIndex(raw: string): SpecLibraryEntry[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (entry): entry is SpecLibraryEntry =>
+        !!entry && typeof entry.id === 'string' && typeof entry.name === 'string' && typeof entry.updatedAt === 'number',
+    );
+  } catch (error) {
+    return [];
+  }
+}
+
+export function removeLibraryEntry(entries: SpecLibraryEntry[], id: string): SpecLibraryEntry[] {
+  return entries.filter((entry) => entry.id !== id);
+}
+
+export function sortLibraryEntries(entries: SpecLibraryEntry[]): SpecLibraryEntry[] {
+  return [...entries].sort((a, b) => b.updatedAt - a.updatedAt || a.name.localeCompare(b.name));
+}
+
+/**
+ * Returns a name for a duplicated spec that is not used by another entry,
+ * e.g. "Button" → "Button copy" → "Button copy 2".
+ */
+export function createDuplicateName(name: string, entries: SpecLibraryEntry[]): string {
+  const taken = new Set(entries.map((entry) => entry.name));
+  const base = `${name.replace(/ copy( \d+)?$/, '')} copy`;
+  let candidate = base;
+  let counter = 2;
+  while (taken.has(candidate)) {
+    candidate = `${base} ${counter}`;
+    counter += 1;
+  }
+  return candidate;
+}
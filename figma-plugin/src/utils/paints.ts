@@ -0,0 +1,92 @@
+import { ColorValue, FillSpec, GradientFillSpec, GradientType, ImageFillSpec } from '../types';
+import { formatColorValue } from './tokens';
+
+/**
+ * Affine transform in Figma's `gradientTransform` layout.
+ */
+export type GradientTransform = [[number, number, number], [number, number, number]];
+
+export const GRADIENT_TYPES: GradientType[] = ['GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR'];
+
+const DEFAULT_GRADIENT_ANGLE: Record<GradientType, number> = {
+  GRADIENT_LINEAR: 180,
+  GRADIENT_RADIAL: 90,
+  GRADIENT_ANGULAR: 0,
+};
+
+export function isGradientFill(fill: FillSpec): fill is GradientFillSpec {
+  return (GRADIENT_TYPES as string[]).includes(fill.type);
+}
+
+export function getGradientAngle(fill: GradientFillSpec): number {
+  return fill.type === 'GRADIENT_RADIAL' ? 90 : fill.angle ?? DEFAULT_GRADIENT_ANGLE[fill.type];
+}
+
+/**
+ * Builds the transform Figma expects for a gradient drawn at a CSS angle.
+ * Figma's identity transform runs left to right, which is 90deg in CSS; other
+ * angles rotate the gradient around the centre of the node.
+ */
+export function gradientTransformFromAngle(angle: number): GradientTransform {
+  const radians = (angle * Math.PI) / 180;
+  const round = (value: number) => Math.round(value * 1e6) / 1e6 + 0;
+  const dx = round(Math.sin(radians));
+  const dy = round(-Math.cos(radians));
+  const px = round(Math.cos(radians));
+  const py = round(Math.sin(radians));
+  return [
+    [dx, dy, round(0.5 - (dx + dy) / 2)],
+    [px, py, round(0.5 - (px + py) / 2)],
+  ];
+}
+
+/**
+ * Reads the CSS angle back from a Figma gradient transform, rounded to whole
+ * degrees in the range 0–359.
+ */
+export function angleFromGradientTransform(transform: GradientTransform): number {
+  const [[dx, dy]] = transform;
+  const degrees = Math.round((Math.atan2(dx, -dy) * 180) / Math.PI);
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Colour values a fill uses: its colour for solid fills and the stop colours
+ * for gradients. Image fills have none.
+ */
+export function getFillColors(fill: FillSpec): ColorValue[] {
+  if (fill.type === 'SOLID') return [fill.color];
+  if (isGradientFill(fill)) return fill.stops.map((stop) => stop.color);
+  return [];
+}
+
+/**
+ * The colour that best represents a fill where only a single colour can be
+ * used, e.g. the text colour of a text node.
+ */
+export function getPrimaryFillColor(fill: FillSpec): { color: ColorValue; opacity?: number } | undefined {
+  if (fill.type === 'SOLID') return fill;
+  if (isGradientFill(fill) && fill.stops.length) return fill.stops[0];
+  return undefined;
+}
+
+export function imageFillToDataUri(fill: ImageFillSpec): string {
+  return `data:image/png;base64,${fill.imageBase64}`;
+}
+
+const GRADIENT_LABELS: Record<GradientType, string> = {
+  GRADIENT_LINEAR: 'Linear gradient',
+  GRADIENT_RADIAL: 'Radial gradient',
+  GRADIENT_ANGULAR: 'Angular gradient',
+};
+
+/**
+ * Short human readable description of a fill for reports and the inspector.
+ */
+export function describeFill(fill: FillSpec): string {
+  if (fill.type === 'SOLID') return formatColorValue(fill.color);
+  if (isGradientFill(fill)) {
+    return `${GRADIENT_LABELS[fill.type]} ${fill.stops.map((stop) => formatColorValue(stop.color)).join(' → ')}`;
+  }
+  return `Image (${fill.scaleMode.toLowerCase()})`;
+}
@@ -0,0 +1,318 @@
+import { ComponentSpec, ElementSpec, PropBinding, StateSpec, VariantSelector } from '../types';
+import { toPropKey } from './capture';
+import {
+  CssDeclarations,
+  elementToCss,
+  formatCssRule,
+  layoutOverrideToCss,
+  resolveStyleTarget,
+  styleToCss,
+  toBlockClass,
+  toElementClass,
+  toVariantAttribute,
+} from './css';
+import { describeSelector, flattenElements, getSelectorValues, getTextOverride, orderStatesByPriority } from './spec';
+import { findParentElement } from './structure';
+
+/**
+ * A file produced by one of the code exporters.
+ */
+export interface GeneratedFile {
+  path: string;
+  contents: string;
+}
+
+/**
+ * Turns a spec name into a PascalCase component identifier, e.g.
+ * "Primary button" → "PrimaryButton".
+ */
+export function toComponentName(name: string): string {
+  const key = toPropKey(name);
+  const pascal = key.charAt(0).toUpperCase() + key.slice(1);
+  return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+
+/**
+ * Generates a typed React component and its stylesheet from the spec. Variant
+ * groups become union-typed props rendered as `data-*` attributes, boolean
+ * props and `visibleWhen` selectors mount elements conditionally, text and
+ * swap props are rendered as
+ * `ReactNode` slots, and states compile to attribute selectors on the block
+ * class in the order they are applied.
+ */
+export function generateReactComponent(spec: ComponentSpec): GeneratedFile[] {
+  const componentName = toComponentName(spec.name);
+  return [
+    { path: `${componentName}.tsx`, contents: generateComponentSource(spec, componentName) },
+    { path: `${componentName}.css`, contents: generateComponentStylesheet(spec, componentName) },
+  ];
+}
+
+function generateComponentSource(spec: ComponentSpec, componentName: string): string {
+  const block = toBlockClass(componentName);
+  const { boolean = {}, text = {}, swap = {} } = spec.propDefinitions;
+  const usesReactNode = Object.keys(text).length > 0 || Object.keys(swap).length > 0;
+  const lines: string[] = [];
+
+  if (usesReactNode) {
+    lines.push(`import type { ReactNode } from 'react';`);
+  }
+  lines.push(`import './${componentName}.css';`, '');
+
+  spec.variantGroups.forEach((group) => {
+    const values = group.values.map((value) => `'${escapeString(value)}'`).join(' | ') || 'string';
+    lines.push(`export type ${componentName}${toTypeSuffix(group.name)} = ${values};`);
+  });
+  if (spec.variantGroups.length) lines.push('');
+
+  const members: string[] = [];
+  const defaults: string[] = [];
+  spec.variantGroups.forEach((group) => {
+    const key = toPropKey(group.name);
+    members.push(...docComment(group.description), `${key}?: ${componentName}${toTypeSuffix(group.name)};`);
+    defaults.push(group.values.length ? `${key} = '${escapeString(group.values[0])}'` : key);
+  });
+  Object.entries(boolean).forEach(([name, def]) => {
+    const key = toPropKey(name);
+    members.push(...docComment(def.description), `${key}?: boolean;`);
+    defaults.push(`${key} = ${def.defaultValue ?? false}`);
+  });
+  Object.entries(text).forEach(([name, def]) => {
+    const key = toPropKey(name);
+    members.push(...docComment(def.description), `${key}?: ReactNode;`);
+    defaults.push(`${key} = '${escapeString(def.defaultValue ?? '')}'`);
+  });
+  Object.entries(swap).forEach(([name, def]) => {
+    const key = toPropKey(name);
+    members.push(...docComment(def.description), `${key}?: ReactNode;`);
+    defaults.push(key);
+  });
+  members.push('className?: string;');
+  defaults.push('className');
+
+  lines.push(
+    ...docComment(describeCombinationLimits(spec)),
+    `export interface ${componentName}Props {`,
+    ...members.map((line) => `  ${line}`),
+    '}',
+    '',
+  );
+  lines.push(
+    `export function ${componentName}({`,
+    ...defaults.map((entry) => `  ${entry},`),
+    `}: ${componentName}Props) {`,
+    '  return (',
+    ...renderElement(spec, spec.structure, block, 2, true),
+    '  );',
+    '}',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function renderElement(
+  spec: ComponentSpec,
+  element: ElementSpec,
+  block: string,
+  depth: number,
+  isRoot = false,
+): string[] {
+  const indent = '  '.repeat(depth);
+  const tag = element.type === 'TEXT' ? 'span' : 'div';
+  const attributes: string[] = [];
+  if (isRoot) {
+    attributes.push(`className={['${block}', className].filter(Boolean).join(' ')}`);
+    spec.variantGroups.forEach((group) => {
+      attributes.push(`${toVariantAttribute(group.name)}={${toPropKey(group.name)}}`);
+    });
+  } else {
+    attributes.push(`className="${toElementClass(block, element)}"`);
+  }
+
+  const content: string[] = [];
+  const textBinding = findBinding(spec, element, 'TEXT');
+  const swapBinding = findBinding(spec, element, 'INSTANCE_SWAP');
+  if (element.type === 'TEXT') {
+    content.push(textBinding ? `{${toPropKey(textBinding.propName)}}` : renderTextContent(spec, element));
+  } else if (element.type === 'ICON' && swapBinding) {
+    content.push(`{${toPropKey(swapBinding.propName)}}`);
+  }
+
+  let lines: string[];
+  const childLines = (element.children ?? []).flatMap((child) => renderElement(spec, child, block, depth + 1));
+  const contentLines = content.filter(Boolean).map((line) => `${indent}  ${line}`);
+  if (!childLines.length && !contentLines.length) {
+    lines = isRoot
+      ? [`${indent}<${tag}`, ...attributes.map((attribute) => `${indent}  ${attribute}`), `${indent}/>`]
+      : [`${indent}<${tag} ${attributes.join(' ')} />`];
+  } else {
+    lines = isRoot
+      ? [`${indent}<${tag}`, ...attributes.map((attribute) => `${indent}  ${attribute}`), `${indent}>`]
+      : [`${indent}<${tag} ${attributes.join(' ')}>`];
+    lines.push(...contentLines, ...childLines, `${indent}</${tag}>`);
+  }
+
+  const booleanBinding = findBinding(spec, element, 'BOOLEAN');
+  const conditions = isRoot
+    ? []
+    : [
+        ...(booleanBinding ? [toPropKey(booleanBinding.propName)] : []),
+        ...selectorConditions(element.visibleWhen),
+      ];
+  if (conditions.length) {
+    return [
+      `${indent}{${conditions.join(' && ')} && (`,
+      ...lines.map((line) => `  ${line}`),
+      `${indent})}`,
+    ];
+  }
+  return lines;
+}
+
+function generateComponentStylesheet(spec: ComponentSpec, componentName: string): string {
+  const block = toBlockClass(componentName);
+  const tokens = spec.styleTokens;
+  const elements = flattenElements(spec.structure);
+  const rules: string[] = [];
+
+  const baseRules = new Map<ElementSpec, CssDeclarations>();
+  elements.forEach((element) => {
+    const isRoot = element === spec.structure;
+    // Elements toggled by a boolean prop are mounted conditionally instead.
+    const hidden = findBinding(spec, element, 'BOOLEAN') ? { ...element, defaultVisible: undefined } : element;
+    baseRules.set(element, elementToCss(hidden, isRoot, tokens, findParentElement(spec.structure, element.id)));
+  });
+  if (spec.baseStyle) {
+    Object.assign(baseRules.get(spec.structure)!, rootStyleToCss(spec, spec.baseStyle));
+    Object.entries(spec.baseStyle.elements ?? {}).forEach(([key, style]) => {
+      const target = resolveStyleTarget(spec.structure, key);
+      if (target) Object.assign(baseRules.get(target)!, styleToCss(style, target.type, tokens));
+    });
+  }
+  baseRules.forEach((declarations, element) => {
+    const selector = element === spec.structure ? `.${block}` : `.${toElementClass(block, element)}`;
+    rules.push(formatCssRule(selector, declarations));
+  });
+
+  orderStatesByPriority(spec.states).forEach((state) => {
+    const scope = stateScope(block, state);
+    const stateRules: string[] = [];
+    const root = rootStyleToCss(spec, state.style);
+    if (Object.keys(root).length) stateRules.push(formatCssRule(scope, root));
+    Object.entries(state.style.elements ?? {}).forEach(([key, style]) => {
+      const target = resolveStyleTarget(spec.structure, key);
+      if (!target || target === spec.structure) return;
+      const declarations = styleToCss(style, target.type, tokens);
+      if (Object.keys(declarations).length) {
+        stateRules.push(formatCssRule(`${scope} .${toElementClass(block, target)}`, declarations));
+      }
+    });
+    if (stateRules.length) {
+      rules.push(`/* ${state.label ?? state.name} */\n${stateRules.join('\n\n')}`);
+    }
+  });
+
+  return `${rules.join('\n\n')}\n`;
+}
+
+function rootStyleToCss(spec: ComponentSpec, style: StateSpec['style']): CssDeclarations {
+  const { elements, layout, ...rest } = style;
+  return {
+    ...styleToCss(rest, spec.structure.type, spec.styleTokens),
+    ...(layout ? layoutOverrideToCss(layout) : {}),
+  };
+}
+
+/**
+ * The selector scoping the rules of a state. The conditions sit in `:where()`
+ * so every state has the specificity of the block class alone and the
+ * priority order of the rules decides, as in the generator.
+ */
+function stateScope(block: string, state: StateSpec): string {
+  const conditions = stateSelector(state);
+  return conditions ? `.${block}:where(${conditions})` : `.${block}`;
+}
+
+/**
+ * Attribute selectors for a state: listed values become `:is()` alternatives
+ * and excluded values `:not()` clauses.
+ */
+function stateSelector(state: StateSpec): string {
+  return Object.entries(state.appliesTo ?? {})
+    .map(([group, value]) => {
+      const { values, negated } = getSelectorValues(value);
+      const attributes = values.map((listed) => `[${toVariantAttribute(group)}="${escapeString(listed, '"')}"]`);
+      if (negated) return attributes.map((attribute) => `:not(${attribute})`).join('');
+      if (!attributes.length) return ':not(*)';
+      return attributes.length === 1 ? attributes[0] : `:is(${attributes.join(', ')})`;
+    })
+    .join('');
+}
+
+/**
+ * Comparisons of the variant props with the values of a selector.
+ */
+function selectorConditions(selector: VariantSelector | undefined): string[] {
+  return Object.entries(selector ?? {}).flatMap(([group, value]) => {
+    const { values, negated } = getSelectorValues(value);
+    const comparisons = values.map((listed) => `${toPropKey(group)} ${negated ? '!==' : '==='} '${escapeString(listed)}'`);
+    if (negated || comparisons.length === 1) return comparisons;
+    return comparisons.length ? [`(${comparisons.join(' || ')})`] : ['false'];
+  });
+}
+
+/**
+ * The static text of an element, or a chain of conditionals on the variant
+ * props when states override it. Later states are checked first so they win
+ * like in the generator.
+ */
+function renderTextContent(spec: ComponentSpec, element: ElementSpec): string {
+  const text = element.text?.default ?? '';
+  const overriding = orderStatesByPriority(spec.states).filter((state) => typeof getTextOverride(state, element) !== 'undefined');
+  if (!overriding.length) return toJsxText(text);
+  const expression = overriding.reduce((fallback, state) => {
+    const value = `'${escapeString(getTextOverride(state, element)!)}'`;
+    const conditions = selectorConditions(state.appliesTo);
+    return conditions.length ? `${conditions.join(' && ')} ? ${value} : ${fallback}` : value;
+  }, `'${escapeString(text)}'`);
+  return `{${expression}}`;
+}
+
+function findBinding(spec: ComponentSpec, element: ElementSpec, type: PropBinding['type']): PropBinding | undefined {
+  return spec.bindings.find(
+    (binding) =>
+      binding.type === type &&
+      (binding.target.kind === 'NODE'
+        ? binding.target.nodeId === element.id
+        : binding.target.role === element.role),
+  );
+}
+
+function toTypeSuffix(groupName: string): string {
+  const key = toPropKey(groupName);
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function toJsxText(value: string): string {
+  return /[{}<>]/.test(value) ? `{'${escapeString(value)}'}` : value;
+}
+
+function escapeString(value: string, quote = "'"): string {
+  return value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+}
+
+/**
+ * Which variant combinations the design defines, for specs that do not
+ * generate every combination of their groups.
+ */
+function describeCombinationLimits(spec: ComponentSpec): string | undefined {
+  const describe = (selectors: VariantSelector[]) => selectors.map((selector) => `(${describeSelector(selector)})`).join(', ');
+  const limits: string[] = [];
+  if (spec.includedCombinations) limits.push(`Only defined for ${describe(spec.includedCombinations)}.`);
+  if (spec.excludedCombinations?.length) limits.push(`Not defined for ${describe(spec.excludedCombinations)}.`);
+  return limits.join(' ') || undefined;
+}
+
+function docComment(description?: string): string[] {
+  return description ? [`/** ${description.replace(/\*\//g, '* /')} */`] : [];
+}
@@ -0,0 +1,297 @@
+import specSchema from '../../schema/component-spec.schema.json';
+import { ComponentSpec, ValidationIssue, ValidationResult } from '../types';
+
+/**
+ * Version written to new specs. Bump it together with a new entry in
+ * `specMigrations` whenever the shape of `ComponentSpec` changes in a way
+ * older specs cannot be read as-is, and regenerate the schema with
+ * `npm run schema`.
+ */
+export const CURRENT_SPEC_VERSION = 2;
+
+/**
+ * Upgrades a spec from one version to the next. Migrations work on plain JSON
+ * because the input does not match the current types yet.
+ */
+export interface SpecMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (spec: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export const specMigrations: SpecMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Default the collections that unversioned exports could omit.',
+    migrate: (spec) => ({
+      ...spec,
+      variantGroups: spec.variantGroups ?? [],
+      states: spec.states ?? [],
+      propDefinitions: spec.propDefinitions ?? {},
+      bindings: spec.bindings ?? [],
+    }),
+  },
+];
+
+export interface SpecParseResult {
+  /** The upgraded spec, present only when it passed structural validation. */
+  spec: ComponentSpec | null;
+  result: ValidationResult;
+  /** Version the input was upgraded from, when migrations were applied. */
+  migratedFrom?: number;
+}
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string | string[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: SchemaNode[];
+}
+
+const definitions = (specSchema as { definitions: Record<string, SchemaNode> }).definitions;
+
+/**
+ * Reads the version of a stored or imported spec. Specs saved before
+ * versioning was introduced count as version 1.
+ */
+export function getSpecVersion(value: Record<string, unknown>): number {
+  return typeof value.specVersion === 'number' ? value.specVersion : 1;
+}
+
+/**
+ * Whether the migrations can bring a spec of the given version up to
+ * `CURRENT_SPEC_VERSION`, or it is current already.
+ */
+export function canMigrateSpec(version: number): boolean {
+  let current = version;
+  while (current < CURRENT_SPEC_VERSION) {
+    const migration = specMigrations.find((entry) => entry.from === current);
+    if (!migration) return false;
+    current = migration.to;
+  }
+  return current === CURRENT_SPEC_VERSION;
+}
+
+/**
+ * Applies the migrations needed to bring `value` to `CURRENT_SPEC_VERSION`.
+ * The input is not modified. Throws when no migration covers its version;
+ * check with `canMigrateSpec` first.
+ */
+export function migrateSpec(value: Record<string, unknown>): Record<string, unknown> {
+  let current = value;
+  let version = getSpecVersion(value);
+  while (version < CURRENT_SPEC_VERSION) {
+    const migration = specMigrations.find((entry) => entry.from === version);
+    if (!migration) {
+      throw new Error(`No migration available for spec version ${version}.`);
+    }
+    current = { ...migration.migrate(current), specVersion: migration.to };
+    version = migration.to;
+  }
+  return current;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Appends a key or list index to a JSON path. Keys that are not identifiers
+ * are quoted, e.g. `styleTokens.colors["color.brand.primary"]`.
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Splits a path built with `joinPath` into its keys and list indexes.
+ */
+export function splitPath(path: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const pattern = /\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]|([^.[\]]+)/g;
+  let match = pattern.exec(path);
+  while (match) {
+    if (typeof match[1] !== 'undefined') segments.push(Number(match[1]));
+    else if (typeof match[2] !== 'undefined') segments.push(JSON.parse(match[2]) as string);
+    else segments.push(match[3]);
+    match = pattern.exec(path);
+  }
+  return segments;
+}
+
+/**
+ * Validates a value against the subset of JSON Schema emitted by the schema
+ * generator. Unknown properties are reported as warnings so hand-edited files
+ * still load; everything else is an error.
+ */
+function validateNode(
+  value: unknown,
+  node: SchemaNode,
+  path: string,
+  errors: ValidationIssue[],
+  warnings: ValidationIssue[],
+) {
+  const label = path || 'Specification';
+  if (node.$ref) {
+    const resolved = definitions[node.$ref.replace('#/definitions/', '')];
+    validateNode(value, resolved, path, errors, warnings);
+    return;
+  }
+  if (node.anyOf) {
+    const attempts = node.anyOf.map((option) => {
+      const optionErrors: ValidationIssue[] = [];
+      const optionWarnings: ValidationIssue[] = [];
+      validateNode(value, option, path, optionErrors, optionWarnings);
+      return { optionErrors, optionWarnings };
+    });
+    const closest = attempts.reduce((best, attempt) =>
+      attempt.optionErrors.length < best.optionErrors.length ? attempt : best,
+    );
+    errors.push(...closest.optionErrors);
+    warnings.push(...closest.optionWarnings);
+    return;
+  }
+  if (node.type) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({
+        code: 'schema.type',
+        message: `${label} must be of type ${types.join(' or ')} but is ${typeOf(value)}.`,
+        path,
+      });
+      return;
+    }
+  }
+  if ('const' in node && value !== node.const) {
+    errors.push({
+      code: 'schema.enum',
+      message: `${label} must be ${JSON.stringify(node.const)}.`,
+      path,
+    });
+    return;
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push({
+      code: 'schema.enum',
+      message: `${label} must be one of ${node.enum.map((entry) => JSON.stringify(entry)).join(', ')}.`,
+      path,
+    });
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (typeof node.minItems === 'number' && value.length < node.minItems) {
+      errors.push({ code: 'schema.items', message: `${label} needs at least ${node.minItems} items.`, path });
+    }
+    if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+      errors.push({ code: 'schema.items', message: `${label} allows at most ${node.maxItems} items.`, path });
+    }
+    if (node.items) {
+      value.forEach((item, index) => validateNode(item, node.items!, joinPath(path, index), errors, warnings));
+    }
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    (node.required ?? []).forEach((key) => {
+      if (typeof record[key] === 'undefined') {
+        errors.push({
+          code: 'schema.required',
+          message: `${label} is missing the required property "${key}".`,
+          path: joinPath(path, key),
+        });
+      }
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      const childPath = joinPath(path, key);
+      const property = node.properties?.[key];
+      if (property) {
+        validateNode(child, property, childPath, errors, warnings);
+      } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        validateNode(child, node.additionalProperties, childPath, errors, warnings);
+      } else if (node.additionalProperties === false) {
+        warnings.push({
+          code: 'schema.property.unknown',
+          message: `${label} has an unknown property "${key}" that will be ignored.`,
+          path: childPath,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Checks the shape of an (already migrated) spec against the published JSON
+ * Schema. Issue paths use JSON path notation relative to the spec root, e.g.
+ * `states[2].style.fills[0].color`.
+ */
+export function validateSpecShape(value: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  validateNode(value, specSchema as SchemaNode, '', errors, warnings);
+  return { ok: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Upgrades and structurally validates an imported or stored spec. Use this
+ * instead of casting parsed JSON to `ComponentSpec`.
+ */
+export function parseSpec(value: unknown): SpecParseResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {
+      spec: null,
+      result: {
+        ok: false,
+        errors: [{ code: 'schema.type', message: 'Specification must be a JSON object.', path: '' }],
+        warnings: [],
+      },
+    };
+  }
+  const version = getSpecVersion(value as Record<string, unknown>);
+  if (!canMigrateSpec(version)) {
+    const newer = version > CURRENT_SPEC_VERSION;
+    return {
+      spec: null,
+      result: {
+        ok: false,
+        errors: [
+          {
+            code: 'spec.version.unsupported',
+            message: newer
+              ? `Specification version ${version} is newer than this plugin supports (${CURRENT_SPEC_VERSION}).`
+              : `Specification version ${version} is not a version this plugin can read.`,
+            hint: newer
+              ? 'Update the plugin to open this specification.'
+              : `Set "specVersion" to a whole number from 1 to ${CURRENT_SPEC_VERSION}.`,
+            path: 'specVersion',
+          },
+        ],
+        warnings: [],
+      },
+    };
+  }
+  const migrated = migrateSpec(value as Record<string, unknown>);
+  const result = validateSpecShape(migrated);
+  return {
+    spec: result.ok ? (migrated as unknown as ComponentSpec) : null,
+    result,
+    migratedFrom: version < CURRENT_SPEC_VERSION ? version : undefined,
+  };
+}
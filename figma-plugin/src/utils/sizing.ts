@@ -0,0 +1,60 @@
+import { AutoLayoutSpec, NodeKind, SizeSpec, SizingMode, TextAutoResize } from '../types';
+
+export type Axis = 'horizontal' | 'vertical';
+
+export type LayoutDirection = AutoLayoutSpec['direction'];
+
+export const SIZING_MODES: SizingMode[] = ['FIXED', 'HUG', 'FILL'];
+
+/**
+ * Auto layout frames and text can hug their content; other elements keep a
+ * fixed size unless they fill their parent.
+ */
+export function canHug(type: NodeKind, hasLayout: boolean): boolean {
+  return type === 'TEXT' || (type === 'FRAME' && hasLayout);
+}
+
+/**
+ * The sizing mode of one axis. An explicit mode wins; otherwise the axis is
+ * fixed when it has a dimension and hugs when the element can hug, which is
+ * how specs without modes were generated before.
+ */
+export function getSizingMode(size: SizeSpec | undefined, axis: Axis, hugs: boolean): SizingMode {
+  const explicit = axis === 'horizontal' ? size?.horizontalSizing : size?.verticalSizing;
+  if (explicit === 'HUG' && !hugs) return 'FIXED';
+  if (explicit) return explicit;
+  const dimension = axis === 'horizontal' ? size?.width : size?.height;
+  return typeof dimension !== 'number' && hugs ? 'HUG' : 'FIXED';
+}
+
+export function getPrimaryAxis(direction: LayoutDirection): Axis {
+  return direction === 'HORIZONTAL' ? 'horizontal' : 'vertical';
+}
+
+/**
+ * Figma's child properties for an element inside an auto layout parent: fill
+ * along the parent's direction grows the element, fill across it stretches.
+ */
+export function resolveChildSizing(
+  size: SizeSpec | undefined,
+  parentDirection: LayoutDirection,
+): { layoutGrow: number; layoutAlign: 'INHERIT' | 'STRETCH' } {
+  const primary = getPrimaryAxis(parentDirection);
+  const counter: Axis = primary === 'horizontal' ? 'vertical' : 'horizontal';
+  return {
+    layoutGrow: size?.layoutGrow ?? (getSizingMode(size, primary, false) === 'FILL' ? 1 : 0),
+    layoutAlign: size?.layoutAlign ?? (getSizingMode(size, counter, false) === 'FILL' ? 'STRETCH' : 'INHERIT'),
+  };
+}
+
+/**
+ * Text resizing derived from the sizing modes when not set explicitly: a
+ * hugging width grows the text in both directions, a hugging height only
+ * grows it downwards.
+ */
+export function resolveTextAutoResize(size: SizeSpec | undefined): TextAutoResize {
+  if (size?.textAutoResize) return size.textAutoResize;
+  if (getSizingMode(size, 'horizontal', true) === 'HUG') return 'WIDTH_AND_HEIGHT';
+  if (getSizingMode(size, 'vertical', true) === 'HUG') return 'HEIGHT';
+  return 'NONE';
+}
@@ -1,16 +1,31 @@
 import {
   AutoFixSuggestion,
+  ColorValue,
   ComponentSpec,
+  DesignTokensRef,
   ElementSpec,
+  ElementStyleSpec,
+  FillSpec,
   PropBinding,
   PropDefinitions,
+  PropValueMap,
+  SizeSpec,
   StateSpec,
+  StrokeSpec,
+  StyleSpec,
+  TextStyleValue,
   ValidationIssue,
   ValidationResult,
   VariantCombination,
   VariantGroupSpec,
   VariantSelector,
+  VariantSelectorValue,
 } from '../types';
+import { findAccessibilityIssues } from './accessibility';
+import { reserveIdentifier } from './capture';
+import { joinPath, splitPath } from './schema';
+import { getFillColors, isGradientFill } from './paints';
+import { isTokenRef, resolveColor, resolveTextStyle } from './tokens';
 
 /**
  * Performs a structural deep clone of the provided value. The plugin runs in a
@@ -24,6 +39,14 @@ export function deepCloneSpec<T>(value: T): T {
   return JSON.parse(JSON.stringify(value));
 }
 
+/**
+ * Creates a unique identifier for a spec. It is stored in plugin data on the
+ * generated nodes to find them again when the spec is regenerated.
+ */
+export function createSpecId(): string {
+  return `spec-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
 /**
  * Normalises variant names by trimming whitespace, converting to lowercase and
  * removing characters that are not supported by Figma variant notation.
@@ -80,15 +103,16 @@ function findDuplicates(values: string[]): string[] {
 }
 
 /**
- * Collects all colour tokens used inside the style spec.
+ * Collects all colour values (literals and token references) used inside the
+ * style spec, including gradient stops.
  */
-function collectColorsFromStyle(style: StateSpec['style']): string[] {
-  const colors: string[] = [];
-  const inspectFill = (fillArray?: { color: string }[]) => {
+function collectColorsFromStyle(style: StyleSpec | ElementStyleSpec): ColorValue[] {
+  const colors: ColorValue[] = [];
+  const inspectFill = (fillArray?: FillSpec[]) => {
     if (!fillArray) return;
-    fillArray.forEach((fill) => colors.push(fill.color));
+    fillArray.forEach((fill) => colors.push(...getFillColors(fill)));
   };
-  const inspectEffect = (effects?: { color?: string }[]) => {
+  const inspectEffect = (effects?: { color?: ColorValue }[]) => {
     if (!effects) return;
     effects.forEach((effect) => {
       if (effect.color) colors.push(effect.color);
@@ -97,16 +121,227 @@ function collectColorsFromStyle(style: StateSpec['style']): string[] {
   inspectFill(style.fills);
   inspectFill(style.strokes);
   inspectEffect(style.effects as any);
-  if (style.elements) {
+  if ('elements' in style && style.elements) {
     Object.values(style.elements).forEach((elementStyle) => {
-      inspectFill(elementStyle.fills);
-      inspectFill(elementStyle.strokes);
-      inspectEffect(elementStyle.effects as any);
+      colors.push(...collectColorsFromStyle(elementStyle));
     });
   }
   return colors;
 }
 
+/**
+ * Collects the values `pick` returns for the style and its element styles.
+ */
+function collectFromStyle<T>(
+  style: StyleSpec | ElementStyleSpec,
+  pick: (style: StyleSpec | ElementStyleSpec) => T[] | undefined,
+): T[] {
+  const values = [...(pick(style) ?? [])];
+  if ('elements' in style && style.elements) {
+    Object.values(style.elements).forEach((elementStyle) => values.push(...(pick(elementStyle) ?? [])));
+  }
+  return values;
+}
+
+/**
+ * Checks the parts of gradient and image fills that a colour check does not
+ * cover: the number and positions of gradient stops and the image data.
+ */
+function validateFill(fill: FillSpec, owner: string, path: string, errors: ValidationIssue[]) {
+  if (isGradientFill(fill)) {
+    if (fill.stops.length < 2) {
+      errors.push({
+        code: 'style.gradient.stops',
+        message: `${owner} has a gradient with ${fill.stops.length} stop${fill.stops.length === 1 ? '' : 's'}.`,
+        hint: 'Gradients need at least two stops.',
+        path,
+      });
+    }
+    fill.stops.forEach((stop) => {
+      if (!(stop.position >= 0 && stop.position <= 1)) {
+        errors.push({
+          code: 'style.gradient.position',
+          message: `${owner} has a gradient stop at ${stop.position}; positions must be between 0 and 1.`,
+          path,
+        });
+      }
+    });
+  } else if (fill.type === 'IMAGE' && !/^[A-Za-z0-9+/]+={0,2}$/.test(fill.imageBase64.replace(/\s/g, ''))) {
+    errors.push({
+      code: 'style.image.invalid',
+      message: `${owner} has an image fill without valid base64 data.`,
+      hint: 'Embed the image as base64 without the "data:" prefix.',
+      path,
+    });
+  }
+}
+
+/**
+ * Checks that stroke weights are not negative and dash patterns only contain
+ * positive lengths.
+ */
+function validateStroke(stroke: StrokeSpec, owner: string, path: string, errors: ValidationIssue[]) {
+  const weights = [stroke.weight, ...Object.values(stroke.sideWeights ?? {})];
+  if (weights.some((weight) => !(weight >= 0))) {
+    errors.push({
+      code: 'style.stroke.weight',
+      message: `${owner} has a stroke with a negative or missing weight.`,
+      path,
+    });
+  }
+  if (stroke.dashPattern?.some((length) => !(length > 0))) {
+    errors.push({
+      code: 'style.stroke.dash',
+      message: `${owner} has a dash pattern with lengths that are not positive: ${stroke.dashPattern.join(', ')}.`,
+      path,
+    });
+  }
+}
+
+/**
+ * Checks that minimum sizes do not exceed the matching maximum.
+ */
+function validateSize(size: SizeSpec, owner: string, path: string, errors: ValidationIssue[]) {
+  const ranges: [string, number | undefined, number | undefined][] = [
+    ['width', size.minWidth, size.maxWidth],
+    ['height', size.minHeight, size.maxHeight],
+  ];
+  ranges.forEach(([dimension, min, max]) => {
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      errors.push({
+        code: 'size.range',
+        message: `${owner} has a minimum ${dimension} of ${min} that exceeds its maximum of ${max}.`,
+        path,
+      });
+    }
+  });
+}
+
+/**
+ * Checks that a selector only refers to declared variant groups and values.
+ * A selector with an unknown group or an empty value list never matches, so
+ * dropping the condition would widen it; without a likely rename the fix
+ * removes the owner instead (`removal`), when the owner can go.
+ */
+function validateSelector(
+  selector: VariantSelector,
+  groups: VariantGroupSpec[],
+  owner: string,
+  path: string,
+  errors: ValidationIssue[],
+  removal?: { target: string; path: string },
+) {
+  Object.entries(selector).forEach(([name, value]) => {
+    const group = groups.find((candidate) => candidate.name === name);
+    const removeOwner = (code: string): AutoFixSuggestion[] | undefined =>
+      removal ? [{ code, target: removal.target, path: removal.path }] : undefined;
+    if (!group) {
+      const closest = findClosestName(name, groups.map((candidate) => candidate.name));
+      errors.push({
+        code: 'selector.group.unknown',
+        message: `${owner} refers to the variant group "${name}", which is not declared.`,
+        hint: closest ? `Did you mean "${closest}"?` : undefined,
+        path: joinPath(path, name),
+        fixes: closest
+          ? [{ code: 'selector.group.unknown', target: name, suggestion: closest, path: joinPath(path, name) }]
+          : removeOwner('selector.group.unknown'),
+      });
+      return;
+    }
+    if (Array.isArray(value) && !value.length) {
+      errors.push({
+        code: 'selector.value.empty',
+        message: `${owner} lists no values for the variant group "${name}", so it never matches.`,
+        hint: 'List at least one value, or use "*" to match any value.',
+        path: joinPath(path, name),
+        fixes: removeOwner('selector.value.empty'),
+      });
+    }
+    getSelectorValues(value)
+      .values.filter((listed) => !group.values.includes(listed))
+      .forEach((listed) => {
+        const closest = findClosestName(listed, group.values);
+        errors.push({
+          code: 'selector.value.unknown',
+          message: `${owner} refers to "${listed}", which is not a value of the variant group "${name}".`,
+          hint: closest ? `Did you mean "${closest}"?` : `Use one of: ${group.values.join(', ')}.`,
+          path: joinPath(path, name),
+          fixes: closest ? [{ code: 'selector.value.unknown', target: listed, suggestion: closest, path: joinPath(path, name) }] : undefined,
+        });
+      });
+  });
+}
+
+function bindsText(binding: PropBinding, element: ElementSpec): boolean {
+  if (binding.type !== 'TEXT') return false;
+  return binding.target.kind === 'NODE' ? binding.target.nodeId === element.id : binding.target.role === element.role;
+}
+
+function fillsParent(size: SizeSpec | undefined): boolean {
+  return size?.horizontalSizing === 'FILL' || size?.verticalSizing === 'FILL';
+}
+
+/**
+ * Collects all text style values used inside the style spec.
+ */
+function collectTextStylesFromStyle(style: StyleSpec): TextStyleValue[] {
+  const textStyles: TextStyleValue[] = [];
+  if (style.textStyle) textStyles.push(style.textStyle);
+  if (style.elements) {
+    Object.values(style.elements).forEach((elementStyle) => {
+      if (elementStyle.textStyle) textStyles.push(elementStyle.textStyle);
+    });
+  }
+  return textStyles;
+}
+
+/**
+ * Checks colour and text style values of a style against the token library.
+ * `owner` describes where the style lives for the issue messages.
+ */
+function validateStyleValues(
+  style: StyleSpec | ElementStyleSpec,
+  owner: string,
+  path: string,
+  tokens: DesignTokensRef | undefined,
+  errors: ValidationIssue[],
+) {
+  collectColorsFromStyle(style).forEach((color) => {
+    if (isTokenRef(color)) {
+      if (!resolveColor(color, tokens)) {
+        errors.push({
+          code: 'style.token.unresolved',
+          message: `${owner} references an unknown colour token: ${color.token}.`,
+          hint: 'Add the token to the library or reference an existing one.',
+          path,
+        });
+      }
+    } else if (!isValidColor(color)) {
+      const nearest = toNearestHexColor(color);
+      errors.push({
+        code: 'style.color.invalid',
+        message: `${owner} uses an invalid colour value: ${color}.`,
+        hint: nearest ? `Did you mean ${nearest}?` : undefined,
+        path,
+        fixes: nearest ? [{ code: 'style.color.invalid', target: color, suggestion: nearest, path }] : undefined,
+      });
+    }
+  });
+  collectFromStyle(style, (item) => item.fills).forEach((fill) => validateFill(fill, owner, path, errors));
+  collectFromStyle(style, (item) => item.strokes).forEach((stroke) => validateStroke(stroke, owner, path, errors));
+  const textStyles = 'elements' in style ? collectTextStylesFromStyle(style) : style.textStyle ? [style.textStyle] : [];
+  textStyles.forEach((textStyle) => {
+    if (isTokenRef(textStyle) && !resolveTextStyle(textStyle, tokens)) {
+      errors.push({
+        code: 'style.token.unresolved',
+        message: `${owner} references an unknown text style token: ${textStyle.token}.`,
+        hint: 'Add the token to the library or reference an existing one.',
+        path,
+      });
+    }
+  });
+}
+
 function collectAllBindings(defs: PropDefinitions): string[] {
   const names: string[] = [];
   if (defs.boolean) {
@@ -121,16 +356,57 @@ function collectAllBindings(defs: PropDefinitions): string[] {
   return names;
 }
 
+/**
+ * Element kinds a binding can target, for binding types limited to one kind.
+ */
+const BINDING_ELEMENT_KINDS: Partial<Record<PropBinding['type'], ElementSpec['type']>> = {
+  TEXT: 'TEXT',
+  INSTANCE_SWAP: 'ICON',
+};
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters, so common typos like "lable" are one edit away.
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * The candidate closest to `value`, ignoring case, when it is close enough to
+ * be a likely typo: at most a third of the characters differ.
+ */
+export function findClosestName(value: string, candidates: string[]): string | undefined {
+  const limit = Math.max(1, Math.floor(value.length / 3));
+  let best: { name: string; distance: number } | undefined;
+  candidates.forEach((candidate) => {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && (!best || distance < best.distance)) best = { name: candidate, distance };
+  });
+  return best?.name;
+}
+
 /**
  * Validates the component specification. The routine checks for duplicate
- * names, invalid colour formats, missing bindings and incorrect variant
- * configuration. It returns a `ValidationResult` that the UI renders to the
+ * names, invalid colour formats, missing bindings, references to undeclared
+ * variants, elements and props, and incorrect variant configuration. It returns a `ValidationResult` that the UI renders to the
  * user before allowing the creation of components.
  */
 export function validateSpec(spec: ComponentSpec): ValidationResult {
   const errors: ValidationIssue[] = [];
   const warnings: ValidationIssue[] = [];
-  const autoFixes: AutoFixSuggestion[] = [];
 
   if (!spec.name.trim()) {
     errors.push({
@@ -149,29 +425,29 @@ export function validateSpec(spec: ComponentSpec): ValidationResult {
     });
   }
 
-  spec.variantGroups.forEach((group) => {
+  spec.variantGroups.forEach((group, groupIndex) => {
     const duplicates = findDuplicates(group.values);
     if (duplicates.length) {
-      const fixNames = duplicates.map((dup, index) => `${normalizeVariantValue(dup)}_${index + 1}`);
-      duplicates.forEach((dup, index) => {
-        autoFixes.push({
-          code: 'variant.value.duplicate',
-          target: `${group.name}.${dup}`,
-          suggestion: fixNames[index],
-        });
-      });
       errors.push({
         code: 'variant.value.duplicate',
         message: `Variant group "${group.name}" has duplicate values: ${duplicates.join(', ')}.`,
         hint: 'Rename or remove duplicates.',
+        fixes: duplicates.map((dup, index) => ({
+          code: 'variant.value.duplicate',
+          target: `${group.name}.${dup}`,
+          suggestion: `${normalizeVariantValue(dup)}_${index + 1}`,
+        })),
       });
     }
-    group.values.forEach((value) => {
+    group.values.forEach((value, valueIndex) => {
       if (value.includes(',') || value.includes('=')) {
+        const path = `variantGroups[${groupIndex}].values[${valueIndex}]`;
         warnings.push({
           code: 'variant.value.format',
           message: `Variant value "${value}" contains characters that are not supported by Figma.`,
           hint: 'The value will be normalised before creation.',
+          path,
+          fixes: [{ code: 'variant.value.format', target: value, suggestion: normalizeVariantValue(value), path }],
         });
       }
     });
@@ -180,52 +456,283 @@ export function validateSpec(spec: ComponentSpec): ValidationResult {
   const stateNames = spec.states.map((state) => state.name);
   const duplicateStates = findDuplicates(stateNames);
   if (duplicateStates.length) {
+    const taken = new Set(stateNames);
     errors.push({
       code: 'state.duplicate',
       message: `Duplicate state names detected: ${duplicateStates.join(', ')}.`,
+      hint: 'Rename the later states.',
+      fixes: spec.states.flatMap((state, index) => {
+        if (stateNames.indexOf(state.name) === index) return [];
+        const suggestion = reserveIdentifier(state.name, taken);
+        return [{ code: 'state.duplicate', target: state.name, suggestion, path: `states[${index}].name` }];
+      }),
     });
   }
 
+  const tokens = spec.styleTokens;
+  Object.entries(tokens?.colors ?? {}).forEach(([name, value]) => {
+    if (!isValidColor(value)) {
+      const nearest = toNearestHexColor(value);
+      const path = joinPath('styleTokens.colors', name);
+      errors.push({
+        code: 'token.color.invalid',
+        message: `Colour token "${name}" has an invalid value: ${value}.`,
+        hint: nearest ? `Did you mean ${nearest}?` : undefined,
+        path,
+        fixes: nearest ? [{ code: 'token.color.invalid', target: value, suggestion: nearest, path }] : undefined,
+      });
+    }
+  });
+
+  flattenElements(spec.structure).forEach(({ fills, strokes, effects, ...element }) => {
+    const paints = { fills, strokes, effects };
+    validateStyleValues(paints, `Element "${element.name}"`, joinPath('structure', element.id), tokens, errors);
+  });
+
+  const validateLayout = (element: ElementSpec, parent?: ElementSpec) => {
+    const path = joinPath(joinPath('structure', element.id), 'size');
+    if (element.size) validateSize(element.size, `Element "${element.name}"`, path, errors);
+    if (fillsParent(element.size) && !parent?.layout) {
+      warnings.push({
+        code: 'size.fill.parent',
+        message: `Element "${element.name}" is set to fill, but its parent has no auto layout.`,
+        hint: 'Fill only applies inside auto layout frames; the element keeps a fixed size.',
+        path,
+      });
+    }
+    const { layout } = element;
+    if (layout?.direction === 'VERTICAL' && (layout.wrap || layout.counterAlignment === 'BASELINE')) {
+      warnings.push({
+        code: 'layout.horizontal.only',
+        message: `Element "${element.name}" uses ${layout.wrap ? 'wrapping' : 'baseline alignment'} in a vertical layout.`,
+        hint: 'Wrapping and baseline alignment only apply to horizontal layouts and are ignored otherwise.',
+        path: joinPath(joinPath('structure', element.id), 'layout'),
+      });
+    }
+    if (element.visibleWhen) {
+      const owner = `Visibility of element "${element.name}"`;
+      const path = joinPath(joinPath('structure', element.id), 'visibleWhen');
+      validateSelector(element.visibleWhen, spec.variantGroups, owner, path, errors);
+    }
+    if (element.position && !parent) {
+      warnings.push({
+        code: 'position.root',
+        message: 'The root element cannot be positioned absolutely.',
+        path: joinPath(joinPath('structure', element.id), 'position'),
+      });
+    }
+    element.children?.forEach((child) => validateLayout(child, element));
+  };
+  validateLayout(spec.structure);
+
+  if (spec.baseStyle) {
+    validateStyleValues(spec.baseStyle, 'Base style', 'baseStyle', tokens, errors);
+  }
+
+  spec.states.forEach((state, index) => {
+    if (state.appliesTo) {
+      const path = `states[${index}].appliesTo`;
+      validateSelector(state.appliesTo, spec.variantGroups, `State "${state.name}"`, path, errors, {
+        target: state.name,
+        path: `states[${index}]`,
+      });
+    }
+    validateStyleValues(state.style, `State "${state.name}"`, `states[${index}].style`, tokens, errors);
+  });
+
+  const elements = flattenElements(spec.structure);
   spec.states.forEach((state, index) => {
-    const colors = collectColorsFromStyle(state.style);
-    colors.forEach((color) => {
-      if (!isValidColor(color)) {
+    Object.keys(state.textOverrides ?? {}).forEach((key) => {
+      const path = joinPath(`states[${index}].textOverrides`, key);
+      const targets = elements.filter((element) => element.id === key || element.role === key);
+      if (!targets.length) {
         errors.push({
-          code: 'style.color.invalid',
-          message: `State "${state.name}" uses an invalid colour value: ${color}.`,
-          path: `states[${index}].style`,
+          code: 'text.override.target',
+          message: `State "${state.name}" overrides the text of "${key}", which matches no element id or role.`,
+          path,
+          fixes: [{ code: 'text.override.target', target: key, path }],
+        });
+      } else if (targets.some((element) => element.type !== 'TEXT')) {
+        errors.push({
+          code: 'text.override.type',
+          message: `State "${state.name}" overrides the text of "${key}", which is not a text element.`,
+          hint: 'Text overrides only apply to TEXT elements.',
+          path,
+        });
+      } else if (targets.some((element) => spec.bindings.some((binding) => bindsText(binding, element)))) {
+        warnings.push({
+          code: 'text.override.bound',
+          message: `State "${state.name}" overrides the text of "${key}", which is bound to a text property.`,
+          hint: 'The property value replaces the override; set it in the state\'s prop values instead.',
+          path,
         });
       }
     });
   });
 
+  const elementKeys = [...new Set(elements.flatMap((element) => (element.role ? [element.id, element.role] : [element.id])))];
+  const styleOwners: [StyleSpec | undefined, string, string][] = [
+    [spec.baseStyle, 'Base style', 'baseStyle'],
+    ...spec.states.map((state, index): [StyleSpec, string, string] => [state.style, `State "${state.name}"`, `states[${index}].style`]),
+  ];
+  styleOwners.forEach(([style, owner, stylePath]) => {
+    Object.keys(style?.elements ?? {})
+      .filter((key) => !elementKeys.includes(key))
+      .forEach((key) => {
+        const path = joinPath(`${stylePath}.elements`, key);
+        const closest = findClosestName(key, elementKeys);
+        errors.push({
+          code: 'style.element.unknown',
+          message: `${owner} styles "${key}", which matches no element id or role.`,
+          hint: closest ? `Did you mean "${closest}"?` : 'Use the id or role of an element in the structure.',
+          path,
+          fixes: [{ code: 'style.element.unknown', target: key, suggestion: closest, path }],
+        });
+      });
+  });
+
+  const declaredProps: Record<keyof PropValueMap, string[]> = {
+    boolean: Object.keys(spec.propDefinitions.boolean ?? {}),
+    text: Object.keys(spec.propDefinitions.text ?? {}),
+    swap: Object.keys(spec.propDefinitions.swap ?? {}),
+    variant: spec.variantGroups.map((group) => group.name),
+  };
+  spec.states.forEach((state, index) => {
+    (Object.keys(declaredProps) as (keyof PropValueMap)[]).forEach((kind) => {
+      Object.entries(state.propValues?.[kind] ?? {}).forEach(([name, value]) => {
+        const path = joinPath(`states[${index}].propValues.${kind}`, name);
+        if (!declaredProps[kind].includes(name)) {
+          const closest = findClosestName(name, declaredProps[kind]);
+          errors.push({
+            code: 'state.prop.unknown',
+            message: `State "${state.name}" sets the ${kind} property "${name}", which is not declared.`,
+            hint: closest ? `Did you mean "${closest}"?` : undefined,
+            path,
+            fixes: [{ code: 'state.prop.unknown', target: name, suggestion: closest, path }],
+          });
+          return;
+        }
+        const group = kind === 'variant' ? spec.variantGroups.find((candidate) => candidate.name === name) : undefined;
+        if (group && !group.values.includes(String(value))) {
+          const closest = findClosestName(String(value), group.values);
+          errors.push({
+            code: 'selector.value.unknown',
+            message: `State "${state.name}" sets the variant "${name}" to "${value}", which is not one of its values.`,
+            hint: closest ? `Did you mean "${closest}"?` : `Use one of: ${group.values.join(', ')}.`,
+            path,
+            fixes: closest ? [{ code: 'selector.value.unknown', target: String(value), suggestion: closest, path }] : undefined,
+          });
+        }
+      });
+    });
+  });
+
+  findStateConflicts(spec).forEach(({ states: [first, second], properties, combination }) => {
+    warnings.push({
+      code: 'state.conflict',
+      message: `States "${first.name}" and "${second.name}" both set ${properties.join(', ')} for ${
+        describeCombination(combination) || 'every variant'
+      }; "${second.name}" wins because it comes later.`,
+      hint: 'Give the state that should win a higher priority.',
+      path: `states[${spec.states.indexOf(second)}].priority`,
+    });
+  });
+
   const propNames = collectAllBindings(spec.propDefinitions);
   const duplicateProps = findDuplicates(propNames);
   if (duplicateProps.length) {
+    const taken = new Set(propNames);
     errors.push({
       code: 'prop.duplicate',
       message: `Duplicate property identifiers detected: ${duplicateProps.join(', ')}.`,
+      hint: 'Rename the later properties; their bindings and state values follow.',
+      fixes: (['text', 'swap'] as const).flatMap((kind) =>
+        Object.keys(spec.propDefinitions[kind] ?? {})
+          .filter((key) => duplicateProps.includes(key))
+          .filter((key) => PROP_KINDS.slice(0, PROP_KINDS.indexOf(kind)).some((earlier) => spec.propDefinitions[earlier]?.[key]))
+          .map((key) => ({
+            code: 'prop.duplicate',
+            target: key,
+            suggestion: reserveIdentifier(`${key}${kind.charAt(0).toUpperCase()}${kind.slice(1)}`, taken),
+            path: joinPath(`propDefinitions.${kind}`, key),
+          })),
+      ),
     });
   }
 
-  spec.bindings.forEach((binding) => {
+  spec.bindings.forEach((binding, index) => {
     if (!propNames.includes(binding.propName)) {
+      const path = `bindings[${index}].propName`;
+      const closest = findClosestName(binding.propName, propNames);
       warnings.push({
         code: 'binding.unmatched',
         message: `Binding for property "${binding.propName}" does not reference a declared property.`,
-        hint: 'Ensure that the property exists or remove the binding.',
+        hint: closest ? `Did you mean "${closest}"?` : 'Ensure that the property exists or remove the binding.',
+        path,
+        fixes: [
+          closest
+            ? { code: 'binding.unmatched', target: binding.propName, suggestion: closest, path }
+            : { code: 'binding.unmatched', target: binding.propName, path: `bindings[${index}]` },
+        ],
+      });
+    }
+  });
+  spec.bindings.forEach((binding, index) => {
+    const [missing] = validateBindingsExist(spec, [binding]);
+    if (missing) {
+      const [key, target, candidates] =
+        binding.target.kind === 'NODE'
+          ? ['nodeId', binding.target.nodeId, elements.map((candidate) => candidate.id)]
+          : ['role', binding.target.role, elements.flatMap((candidate) => (candidate.role ? [candidate.role] : []))];
+      const closest = findClosestName(target, candidates);
+      missing.fixes = [
+        closest
+          ? { code: missing.code, target, suggestion: closest, path: `bindings[${index}].target.${key}` }
+          : { code: missing.code, target: binding.propName, path: `bindings[${index}]` },
+      ];
+      errors.push(missing);
+      return;
+    }
+    const element =
+      binding.target.kind === 'NODE'
+        ? findElementById(spec.structure, binding.target.nodeId)
+        : findElementByRole(spec.structure, binding.target.role);
+    const expected = BINDING_ELEMENT_KINDS[binding.type];
+    if (element && expected && element.type !== expected) {
+      errors.push({
+        code: 'binding.kind.mismatch',
+        message: `${binding.type} binding for "${binding.propName}" targets element "${element.name}", which is a ${element.type} element.`,
+        hint: `${binding.type} properties can only be bound to ${expected} elements.`,
+        path: `bindings[${index}].target`,
       });
     }
   });
 
-  const maxVariants = generateVariantCombinations(spec.variantGroups).length;
+  (['includedCombinations', 'excludedCombinations'] as const).forEach((key) => {
+    spec[key]?.forEach((selector, index) => {
+      const owner = `${key === 'includedCombinations' ? 'Included' : 'Excluded'} combination ${describeSelector(selector)}`;
+      const path = `${key}[${index}]`;
+      validateSelector(selector, spec.variantGroups, owner, path, errors, { target: describeSelector(selector), path });
+    });
+  });
+
+  const maxVariants = getSpecCombinations(spec).length;
+  if (!maxVariants) {
+    errors.push({
+      code: 'variant.none',
+      message: 'Every variant combination is excluded, so nothing can be generated.',
+      hint: 'Remove an exclusion or extend the included combinations.',
+    });
+  }
   if (maxVariants > 50) {
     warnings.push({
       code: 'variant.count.large',
       message: `The specification will generate ${maxVariants} variants. Consider trimming the configuration.`,
     });
   }
+  warnings.push(...findAccessibilityIssues(spec));
 
+  const autoFixes = [...errors, ...warnings].flatMap((issue) => issue.fixes ?? []);
   return {
     ok: errors.length === 0,
     errors,
@@ -252,6 +759,43 @@ export function generateVariantCombinations(groups: VariantGroupSpec[]): Variant
   return result;
 }
 
+/**
+ * Whether the spec generates the combination: it must match an included
+ * selector, when there are any, and no excluded selector.
+ */
+export function isCombinationIncluded(spec: ComponentSpec, combination: VariantCombination): boolean {
+  const included = spec.includedCombinations;
+  if (included && !included.some((selector) => variantMatchesSelector(combination, selector))) return false;
+  return !(spec.excludedCombinations ?? []).some((selector) => variantMatchesSelector(combination, selector));
+}
+
+/**
+ * The variant combinations the spec generates: the cartesian product of its
+ * groups without the excluded combinations.
+ */
+export function getSpecCombinations(spec: ComponentSpec): VariantCombination[] {
+  return generateVariantCombinations(spec.variantGroups).filter((combination) => isCombinationIncluded(spec, combination));
+}
+
+/**
+ * The generated combination sharing the most values with `preferred`, for
+ * moving a selection off an excluded combination. Combinations keeping the
+ * value of the `keep` group are preferred; earlier combinations win ties.
+ */
+export function findClosestCombination(
+  spec: ComponentSpec,
+  preferred: VariantCombination,
+  keep?: string,
+): VariantCombination | undefined {
+  const score = (combination: VariantCombination) =>
+    (keep && combination[keep] === preferred[keep] ? spec.variantGroups.length : 0) +
+    Object.entries(combination).filter(([group, value]) => preferred[group] === value).length;
+  return getSpecCombinations(spec).reduce<VariantCombination | undefined>(
+    (best, combination) => (!best || score(combination) > score(best) ? combination : best),
+    undefined,
+  );
+}
+
 /**
  * Determines whether the provided variant combination matches the selector.
  */
@@ -260,7 +804,173 @@ export function variantMatchesSelector(
   selector?: VariantSelector,
 ): boolean {
   if (!selector) return true;
-  return Object.entries(selector).every(([key, value]) => combination[key] === value);
+  return Object.entries(selector).every(([key, value]) => selectorValueMatches(value, combination[key]));
+}
+
+/**
+ * The values a selector condition lists and whether it excludes them rather
+ * than requiring one of them. `'*'` excludes nothing, so it matches any value.
+ */
+export function getSelectorValues(value: VariantSelectorValue): { values: string[]; negated: boolean } {
+  if (value === '*') return { values: [], negated: true };
+  if (typeof value === 'string') return { values: [value], negated: false };
+  if (Array.isArray(value)) return { values: value, negated: false };
+  return { values: typeof value.not === 'string' ? [value.not] : value.not, negated: true };
+}
+
+export function selectorValueMatches(value: VariantSelectorValue, actual: string | undefined): boolean {
+  const { values, negated } = getSelectorValues(value);
+  return values.includes(actual ?? '') !== negated;
+}
+
+/**
+ * Parses the text form of a selector condition used by the inspector:
+ * comma-separated values, a leading `!` to exclude them and `*` for any
+ * value. Returns undefined for an empty condition.
+ */
+export function parseSelectorValue(text: string): VariantSelectorValue | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '*') return '*';
+  const negated = trimmed.startsWith('!');
+  const values = (negated ? trimmed.slice(1) : trimmed)
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (!values.length) return undefined;
+  const listed = values.length === 1 ? values[0] : values;
+  return negated ? { not: listed } : listed;
+}
+
+export function formatSelectorValue(value: VariantSelectorValue | undefined): string {
+  if (typeof value === 'undefined') return '';
+  if (value === '*') return '*';
+  const { values, negated } = getSelectorValues(value);
+  return `${negated ? '!' : ''}${values.join(', ')}`;
+}
+
+/**
+ * Orders states for application: ascending `priority`, keeping the spec order
+ * between equal priorities, so later entries win.
+ */
+export function orderStatesByPriority(states: StateSpec[]): StateSpec[] {
+  return states
+    .map((state, index) => ({ state, index }))
+    .sort((a, b) => (a.state.priority ?? 0) - (b.state.priority ?? 0) || a.index - b.index)
+    .map(({ state }) => state);
+}
+
+/**
+ * The states that apply to a variant combination, in the order they are
+ * applied.
+ */
+export function resolveStatesForCombination(states: StateSpec[], combination: VariantCombination): StateSpec[] {
+  return orderStatesByPriority(states.filter((state) => variantMatchesSelector(combination, state.appliesTo)));
+}
+
+/**
+ * Two states with the same priority that both apply to `combination` and set
+ * different values for the same properties. `states` is in application order,
+ * so the second state wins.
+ */
+export interface StateConflict {
+  states: [StateSpec, StateSpec];
+  properties: string[];
+  combination: VariantCombination;
+}
+
+interface StateProperty {
+  label: string;
+  value: string;
+}
+
+/**
+ * Flattens what a state sets into properties keyed by target element, so the
+ * same fill set through a role and through an id is recognised as one.
+ */
+function collectStateProperties(spec: ComponentSpec, state: StateSpec): Map<string, StateProperty> {
+  const result = new Map<string, StateProperty>();
+  const add = (element: ElementSpec | undefined, property: string, value: unknown) => {
+    if (!element || typeof value === 'undefined') return;
+    result.set(`${element.id}:${property}`, { label: `${property} of ${element.name}`, value: JSON.stringify(value) });
+  };
+  const { elements, layout, ...rootStyle } = state.style;
+  Object.entries(rootStyle).forEach(([property, value]) => add(spec.structure, property, value));
+  if (layout?.autolayout) {
+    const { align = 'start', ...autolayout } = layout.autolayout;
+    // A layout override without `align` resets the alignment to start.
+    add(spec.structure, 'alignment', align);
+    Object.entries(autolayout).forEach(([property, value]) => add(spec.structure, property, value));
+  }
+  Object.entries(layout?.size ?? {}).forEach(([property, value]) => add(spec.structure, property, value));
+  Object.entries(elements ?? {}).forEach(([key, style]) => {
+    const element = findElementById(spec.structure, key) ?? findElementByRole(spec.structure, key);
+    Object.entries(style).forEach(([property, value]) => add(element, property, value));
+  });
+  flattenElements(spec.structure).forEach((element) => add(element, 'text', getTextOverride(state, element)));
+  Object.values(state.propValues ?? {}).forEach((values) => {
+    Object.entries(values ?? {}).forEach(([name, value]) => {
+      result.set(`prop:${name}`, { label: `property ${name}`, value: JSON.stringify(value) });
+    });
+  });
+  return result;
+}
+
+/**
+ * Finds properties that two equally prioritised states set differently in a
+ * combination both apply to. Each pair of states is reported once, for the
+ * first combination in which they conflict.
+ */
+export function findStateConflicts(spec: ComponentSpec): StateConflict[] {
+  const properties = new Map(spec.states.map((state) => [state, collectStateProperties(spec, state)]));
+  const reported = new Set<string>();
+  const conflicts: StateConflict[] = [];
+  getSpecCombinations(spec).forEach((combination) => {
+    const active = resolveStatesForCombination(spec.states, combination);
+    active.forEach((first, index) => {
+      active.slice(index + 1).forEach((second) => {
+        const key = `${spec.states.indexOf(first)}:${spec.states.indexOf(second)}`;
+        if ((first.priority ?? 0) !== (second.priority ?? 0) || reported.has(key)) return;
+        const later = properties.get(second)!;
+        const clashing = [...properties.get(first)!.entries()]
+          .filter(([property, { value }]) => later.has(property) && later.get(property)!.value !== value)
+          .map(([, { label }]) => label);
+        if (!clashing.length) return;
+        reported.add(key);
+        conflicts.push({ states: [first, second], properties: clashing, combination });
+      });
+    });
+  });
+  return conflicts;
+}
+
+export function describeSelector(selector: VariantSelector): string {
+  return Object.entries(selector)
+    .map(([group, value]) => `${group}=${formatSelectorValue(value)}`)
+    .join(', ');
+}
+
+export function describeCombination(combination: VariantCombination): string {
+  return Object.entries(combination)
+    .map(([group, value]) => `${group}=${value}`)
+    .join(', ');
+}
+
+/**
+ * The text a state sets for an element, looked up by id first and then by
+ * role.
+ */
+export function getTextOverride(state: StateSpec, element: ElementSpec): string | undefined {
+  const overrides = state.textOverrides;
+  if (!overrides) return undefined;
+  return overrides[element.id] ?? (element.role ? overrides[element.role] : undefined);
+}
+
+/**
+ * The text of an element after applying the overrides of the given states in
+ * order, or undefined when none of them overrides it.
+ */
+export function resolveTextOverride(states: StateSpec[], element: ElementSpec): string | undefined {
+  return states.reduce<string | undefined>((text, state) => getTextOverride(state, element) ?? text, undefined);
 }
 
 /**
@@ -286,12 +996,14 @@ export function validateBindingsExist(
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   bindings.forEach((binding) => {
+    const index = spec.bindings.indexOf(binding);
     if (binding.target.kind === 'NODE') {
       const exists = !!findElementById(spec.structure, binding.target.nodeId);
       if (!exists) {
         issues.push({
           code: 'binding.node.missing',
           message: `Binding for "${binding.propName}" references missing node ${binding.target.nodeId}.`,
+          path: `bindings[${index}].target.nodeId`,
         });
       }
     } else if (binding.target.kind === 'ROLE') {
@@ -300,6 +1012,7 @@ export function validateBindingsExist(
         issues.push({
           code: 'binding.role.missing',
           message: `Binding for "${binding.propName}" references unknown role ${binding.target.role}.`,
+          path: `bindings[${index}].target.role`,
         });
       }
     }
@@ -309,12 +1022,18 @@ export function validateBindingsExist(
 
 /**
  * Applies automatic fixes suggested by validation. The function performs a deep
- * clone to avoid mutating the source specification.
+ * clone to avoid mutating the source specification. Fixes that remove list
+ * items run last, from the end of each list, so earlier paths stay valid.
  */
 export function applyAutoFixes(spec: ComponentSpec, fixes: AutoFixSuggestion[]): ComponentSpec {
   const clone = deepCloneSpec(spec);
+  const removals = new Map<string, AutoFixSuggestion>();
   fixes.forEach((fix) => {
-    if (fix.code === 'variant.value.duplicate') {
+    if (fix.path && typeof fix.suggestion === 'undefined' && isListItemPath(fix.path)) {
+      removals.set(fix.path, fix);
+    } else if (fix.path) {
+      applyFixAtPath(clone, fix);
+    } else if (fix.code === 'variant.value.duplicate' && fix.suggestion) {
       const [groupName, originalValue] = fix.target.split('.');
       const group = clone.variantGroups.find((g) => g.name === groupName);
       if (group) {
@@ -325,9 +1044,205 @@ export function applyAutoFixes(spec: ComponentSpec, fixes: AutoFixSuggestion[]):
       }
     }
   });
+  [...removals.values()]
+    .sort((a, b) => b.path!.localeCompare(a.path!, undefined, { numeric: true }))
+    .forEach((fix) => applyFixAtPath(clone, fix));
   return clone;
 }
 
+/**
+ * Describes what a fix changes, for listing fixes before they are applied.
+ */
+export function describeAutoFix(fix: AutoFixSuggestion): string {
+  const target = fix.code === 'variant.value.duplicate' ? fix.target.slice(fix.target.indexOf('.') + 1) : fix.target;
+  if (typeof fix.suggestion === 'undefined') {
+    return isListItemPath(fix.path ?? '') ? `Remove the entry for "${target}"` : `Remove "${target}"`;
+  }
+  return `Replace "${target}" with "${fix.suggestion}"`;
+}
+
+/**
+ * Renames a value of a variant group together with the selectors and state
+ * prop values that refer to it.
+ */
+export function renameVariantValue(spec: ComponentSpec, groupName: string, from: string, to: string): void {
+  const group = spec.variantGroups.find((candidate) => candidate.name === groupName);
+  if (!group) return;
+  group.values = group.values.map((value) => (value === from ? to : value));
+  const rename = (value: VariantSelectorValue): VariantSelectorValue => {
+    if (typeof value === 'string') return value === from ? to : value;
+    if (Array.isArray(value)) return value.map((listed) => (listed === from ? to : listed));
+    return { not: rename(value.not) as string | string[] };
+  };
+  const selectors = [
+    ...spec.states.map((state) => state.appliesTo),
+    ...flattenElements(spec.structure).map((element) => element.visibleWhen),
+    ...(spec.includedCombinations ?? []),
+    ...(spec.excludedCombinations ?? []),
+  ];
+  selectors.forEach((selector) => {
+    if (selector?.[groupName] !== undefined) selector[groupName] = rename(selector[groupName]);
+  });
+  spec.states.forEach((state) => {
+    const variants = state.propValues?.variant;
+    if (variants?.[groupName] === from) variants[groupName] = to;
+  });
+}
+
+const PROP_KINDS = ['boolean', 'text', 'swap'] as const;
+
+const PROP_BINDING_TYPES: Record<(typeof PROP_KINDS)[number], PropBinding['type']> = {
+  boolean: 'BOOLEAN',
+  text: 'TEXT',
+  swap: 'INSTANCE_SWAP',
+};
+
+/**
+ * Renames the key of a property definition together with the bindings and
+ * state prop values of the same kind that use it.
+ */
+export function renamePropKey(
+  spec: ComponentSpec,
+  kind: (typeof PROP_KINDS)[number],
+  from: string,
+  to: string,
+): void {
+  const definitions = spec.propDefinitions[kind] as Record<string, unknown> | undefined;
+  if (!definitions || !(from in definitions)) return;
+  definitions[to] = definitions[from];
+  delete definitions[from];
+  spec.bindings.forEach((binding) => {
+    if (binding.type === PROP_BINDING_TYPES[kind] && binding.propName === from) binding.propName = to;
+  });
+  spec.states.forEach((state) => {
+    const values = state.propValues?.[kind] as Record<string, unknown> | undefined;
+    if (values && from in values) {
+      values[to] = values[from];
+      delete values[from];
+    }
+  });
+}
+
+/**
+ * Fixes that rename or remove a key of the object at their path rather than
+ * replace the value stored there.
+ */
+const KEY_FIXES = [
+  'selector.group.unknown',
+  'style.element.unknown',
+  'state.prop.unknown',
+  'text.override.target',
+];
+
+/** Whether a path ends in a list index, e.g. `bindings[2]`. */
+function isListItemPath(path: string): boolean {
+  return typeof splitPath(path).pop() === 'number';
+}
+
+/**
+ * Looks up the value at a validation path such as `states[1].appliesTo`,
+ * where `structure.<id>` addresses an element by id.
+ */
+function getValueAtPath(spec: ComponentSpec, segments: (string | number)[]): unknown {
+  let current: unknown = spec;
+  for (let index = 0; index < segments.length; index += 1) {
+    if (index === 0 && segments[0] === 'structure' && segments.length > 1) {
+      index += 1;
+      current = findElementById(spec.structure, String(segments[index]));
+    } else if (current && typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segments[index]];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Replaces every occurrence of `target` among the values nested in
+ * `container`.
+ */
+function replaceNestedValue(container: object, target: string, replacement: string) {
+  Object.entries(container).forEach(([key, value]) => {
+    if (value === target) {
+      (container as Record<string, unknown>)[key] = replacement;
+    } else if (value && typeof value === 'object') {
+      replaceNestedValue(value, target, replacement);
+    }
+  });
+}
+
+function applyFixAtPath(spec: ComponentSpec, fix: AutoFixSuggestion) {
+  const segments = splitPath(fix.path!);
+  if (fix.code === 'variant.value.format' && fix.suggestion) {
+    renameVariantValue(spec, spec.variantGroups[segments[1] as number]?.name, fix.target, fix.suggestion);
+    return;
+  }
+  if (fix.code === 'prop.duplicate' && fix.suggestion) {
+    renamePropKey(spec, segments[1] as (typeof PROP_KINDS)[number], fix.target, fix.suggestion);
+    return;
+  }
+  const value = getValueAtPath(spec, segments);
+  const key = segments.pop()!;
+  const parent = getValueAtPath(spec, segments) as Record<string, unknown> | unknown[] | undefined;
+  if (typeof fix.suggestion === 'undefined') {
+    if (Array.isArray(parent)) {
+      parent.splice(Number(key), 1);
+    } else if (parent && typeof parent === 'object') {
+      delete parent[key];
+    }
+  } else if (KEY_FIXES.includes(fix.code)) {
+    if (!parent || Array.isArray(parent) || key !== fix.target || !(key in parent)) return;
+    parent[fix.suggestion] = parent[key];
+    delete parent[key];
+  } else if (value && typeof value === 'object') {
+    replaceNestedValue(value, fix.target, fix.suggestion);
+  } else if (parent && value === fix.target) {
+    (parent as Record<string, unknown>)[key] = fix.suggestion;
+  }
+}
+
+/**
+ * Converts an invalid colour string to the closest valid HEX colour. Only
+ * strings that are recognisably hex (an optional `#` and 3 to 8 digits, padded
+ * or trimmed to six, so "#12345" becomes "#123455"), `rgb()`/`rgba()` or
+ * `hsl()`/`hsla()` are converted; anything else, such as a misspelled colour
+ * name, is undefined.
+ */
+export function toNearestHexColor(value: string): string | undefined {
+  const trimmed = value.trim();
+  const hex = trimmed.match(/^#?([0-9a-f]{3,8})$/i);
+  if (hex) {
+    const digits = hex[1].toLowerCase();
+    if (digits.length === 3 || digits.length === 6) return `#${digits}`;
+    return `#${digits.padEnd(6, digits[digits.length - 1]).slice(0, 6)}`;
+  }
+  const rgb = trimmed.match(/^rgba?\(([^)]*)\)?$/i);
+  if (rgb) {
+    const channels = rgb[1].split(',').slice(0, 3).map((channel) => Number.parseFloat(channel));
+    if (channels.length < 3 || channels.some((channel) => Number.isNaN(channel))) return undefined;
+    return toHexChannels(channels);
+  }
+  const hsl = trimmed.match(/^hsla?\(([^)]*)\)?$/i);
+  if (hsl) {
+    const parts = hsl[1].split(/[\s,/]+/).filter(Boolean).slice(0, 3).map((part) => Number.parseFloat(part));
+    if (parts.length < 3 || parts.some((part) => Number.isNaN(part))) return undefined;
+    const hue = ((parts[0] % 360) + 360) % 360;
+    const [saturation, lightness] = parts.slice(1).map((part) => Math.min(100, Math.max(0, part)) / 100);
+    const amount = saturation * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      return (lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return toHexChannels([channel(0), channel(8), channel(4)]);
+  }
+  return undefined;
+}
+
+function toHexChannels(channels: number[]): string {
+  return `#${channels.map((channel) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`;
+}
+
 export function getAllVariantSelectors(states: StateSpec[]): VariantSelector[] {
   return states
     .map((state) => state.appliesTo)
@@ -0,0 +1,245 @@
+import { ComponentSpec, ElementSpec, NodeKind, StyleSpec } from '../types';
+import { toIdentifier } from './capture';
+import { findElementById, flattenElements } from './spec';
+
+/**
+ * Editing operations on `spec.structure` used by the layer tree. Like
+ * `renameToken` they modify the spec in place, which suits the UI's
+ * draft-based `updateSpec` flow, and throw when an edit is not possible so the
+ * draft can be discarded.
+ */
+
+export const ELEMENT_KINDS: NodeKind[] = ['FRAME', 'TEXT', 'RECTANGLE', 'ICON', 'ELLIPSE'];
+
+const DEFAULT_NAMES: Record<NodeKind, string> = {
+  FRAME: 'Frame',
+  TEXT: 'Text',
+  RECTANGLE: 'Rectangle',
+  ICON: 'Icon',
+  ELLIPSE: 'Ellipse',
+};
+
+/**
+ * Only frames are generated as containers; the other kinds are leaves.
+ */
+export function canHaveChildren(element: ElementSpec): boolean {
+  return element.type === 'FRAME';
+}
+
+export function findParentElement(root: ElementSpec, id: string): ElementSpec | undefined {
+  return flattenElements(root).find((element) => element.children?.some((child) => child.id === id));
+}
+
+/**
+ * Returns an element id based on `base` that is not used in the tree yet.
+ */
+export function createUniqueElementId(root: ElementSpec, base: string): string {
+  const taken = new Set(flattenElements(root).map((element) => element.id));
+  const slug = toIdentifier(base);
+  let candidate = slug;
+  let counter = 2;
+  while (taken.has(candidate)) {
+    candidate = `${slug}-${counter}`;
+    counter += 1;
+  }
+  return candidate;
+}
+
+export function createElement(root: ElementSpec, type: NodeKind): ElementSpec {
+  const name = DEFAULT_NAMES[type];
+  // Ids are namespaced like the templates' ("button-root" → "button-text").
+  const prefix = root.id.replace(/-root$/, '');
+  const element: ElementSpec = { id: createUniqueElementId(root, `${prefix}-${name}`), name, type };
+  switch (type) {
+    case 'FRAME':
+      element.layout = { direction: 'HORIZONTAL', gap: 8, padding: 0, alignment: 'CENTER' };
+      element.children = [];
+      break;
+    case 'TEXT':
+      element.text = { default: name };
+      break;
+    case 'ICON':
+      element.size = { width: 16, height: 16 };
+      break;
+    default:
+      element.size = { width: 24, height: 24 };
+      break;
+  }
+  return element;
+}
+
+function requireElement(spec: ComponentSpec, id: string): ElementSpec {
+  const element = findElementById(spec.structure, id);
+  if (!element) throw new Error(`Element "${id}" does not exist.`);
+  return element;
+}
+
+function requireContainer(spec: ComponentSpec, id: string): ElementSpec {
+  const element = requireElement(spec, id);
+  if (!canHaveChildren(element)) {
+    throw new Error(`${element.name} is a ${element.type.toLowerCase()} and cannot contain other elements.`);
+  }
+  return element;
+}
+
+/**
+ * Appends a new element of the given kind to a frame and returns it.
+ */
+export function addChildElement(spec: ComponentSpec, parentId: string, type: NodeKind): ElementSpec {
+  const parent = requireContainer(spec, parentId);
+  const element = createElement(spec.structure, type);
+  parent.children = [...(parent.children ?? []), element];
+  return element;
+}
+
+/**
+ * Moves an element to `index` among the children of `parentId`. The index
+ * refers to the children list before the element is taken out, so dropping
+ * "before sibling n" works the same whether it moves up or down.
+ */
+export function moveElement(spec: ComponentSpec, id: string, parentId: string, index: number): void {
+  if (id === spec.structure.id) throw new Error('The root element cannot be moved.');
+  const element = requireElement(spec, id);
+  const target = requireContainer(spec, parentId);
+  if (flattenElements(element).includes(target)) {
+    throw new Error(`${element.name} cannot be moved into itself.`);
+  }
+  const parent = findParentElement(spec.structure, id)!;
+  const currentIndex = parent.children!.indexOf(element);
+  parent.children!.splice(currentIndex, 1);
+  const children = target.children ?? [];
+  const adjusted = parent === target && currentIndex < index ? index - 1 : index;
+  children.splice(Math.max(0, Math.min(adjusted, children.length)), 0, element);
+  target.children = children;
+}
+
+/**
+ * Moves an element into its previous sibling, which must be a frame.
+ */
+export function indentElement(spec: ComponentSpec, id: string): void {
+  const parent = findParentElement(spec.structure, id);
+  const siblings = parent?.children ?? [];
+  const previous = siblings[siblings.findIndex((child) => child.id === id) - 1];
+  if (!previous || !canHaveChildren(previous)) {
+    throw new Error('Only elements placed after a frame can be nested into it.');
+  }
+  moveElement(spec, id, previous.id, previous.children?.length ?? 0);
+}
+
+/**
+ * Moves an element out of its parent frame, placing it right after the frame.
+ */
+export function outdentElement(spec: ComponentSpec, id: string): void {
+  const parent = findParentElement(spec.structure, id);
+  const grandparent = parent && findParentElement(spec.structure, parent.id);
+  if (!parent || !grandparent) throw new Error('Elements of the root frame cannot be moved further out.');
+  moveElement(spec, id, grandparent.id, grandparent.children!.indexOf(parent) + 1);
+}
+
+/**
+ * Replaces an element with a new frame that contains it and returns the frame.
+ */
+export function wrapElementInFrame(spec: ComponentSpec, id: string): ElementSpec {
+  if (id === spec.structure.id) throw new Error('The root element cannot be wrapped.');
+  const element = requireElement(spec, id);
+  const parent = findParentElement(spec.structure, id)!;
+  const frame = createElement(spec.structure, 'FRAME');
+  frame.children = [element];
+  parent.children!.splice(parent.children!.indexOf(element), 1, frame);
+  return frame;
+}
+
+/**
+ * Removes an element and its descendants, together with the bindings, state
+ * style entries and text overrides that only referred to them.
+ */
+export function removeElement(spec: ComponentSpec, id: string): void {
+  if (id === spec.structure.id) throw new Error('The root element cannot be removed.');
+  requireElement(spec, id);
+  const parent = findParentElement(spec.structure, id)!;
+  parent.children = parent.children!.filter((child) => child.id !== id);
+  pruneElementReferences(spec);
+}
+
+/**
+ * Changes the id of an element and updates the bindings, state style entries
+ * and text overrides that target it by id.
+ */
+export function setElementId(spec: ComponentSpec, id: string, nextId: string): void {
+  const element = requireElement(spec, id);
+  const value = nextId.trim();
+  if (!value || value === id) return;
+  if (findElementById(spec.structure, value)) throw new Error(`Another element already uses the id "${value}".`);
+  element.id = value;
+  spec.bindings.forEach((binding) => {
+    if (binding.target.kind === 'NODE' && binding.target.nodeId === id) binding.target.nodeId = value;
+  });
+  renameStyleKey(spec, id, value);
+}
+
+/**
+ * Changes the role of an element. References to the old role follow the
+ * element unless another element still has that role; references left without
+ * a target are removed.
+ */
+export function setElementRole(spec: ComponentSpec, id: string, nextRole: string): void {
+  const element = requireElement(spec, id);
+  const previous = element.role;
+  const value = nextRole.trim() || undefined;
+  if (value === previous) return;
+  if (value) {
+    element.role = value;
+  } else {
+    delete element.role;
+  }
+  const stillUsed = !!previous && flattenElements(spec.structure).some((item) => item.role === previous);
+  if (previous && value && !stillUsed) {
+    spec.bindings.forEach((binding) => {
+      if (binding.target.kind === 'ROLE' && binding.target.role === previous) binding.target.role = value;
+    });
+    renameStyleKey(spec, previous, value);
+  }
+  pruneElementReferences(spec);
+}
+
+function styleSpecs(spec: ComponentSpec): StyleSpec[] {
+  return [...(spec.baseStyle ? [spec.baseStyle] : []), ...spec.states.map((state) => state.style)];
+}
+
+/**
+ * Maps keyed by element id or role: `style.elements` and the states' text
+ * overrides.
+ */
+function elementKeyedMaps(spec: ComponentSpec): Record<string, unknown>[] {
+  const maps: (Record<string, unknown> | undefined)[] = [
+    ...styleSpecs(spec).map((style) => style.elements),
+    ...spec.states.map((state) => state.textOverrides),
+  ];
+  return maps.filter((map): map is Record<string, unknown> => !!map);
+}
+
+function renameStyleKey(spec: ComponentSpec, from: string, to: string) {
+  elementKeyedMaps(spec).forEach((map) => {
+    if (!(from in map) || to in map) return;
+    map[to] = map[from];
+    delete map[from];
+  });
+}
+
+/**
+ * Drops bindings, `style.elements` entries and text overrides whose node id or
+ * role no longer matches an element of the structure.
+ */
+export function pruneElementReferences(spec: ComponentSpec): void {
+  const elements = flattenElements(spec.structure);
+  const ids = new Set(elements.map((element) => element.id));
+  const roles = new Set(elements.map((element) => element.role).filter(Boolean));
+  spec.bindings = spec.bindings.filter((binding) =>
+    binding.target.kind === 'NODE' ? ids.has(binding.target.nodeId) : roles.has(binding.target.role),
+  );
+  elementKeyedMaps(spec).forEach((map) => {
+    Object.keys(map).forEach((key) => {
+      if (!ids.has(key) && !roles.has(key)) delete map[key];
+    });
+  });
+}
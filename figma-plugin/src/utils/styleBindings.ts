@@ -0,0 +1,179 @@
+import {
+  ColorValue,
+  FigmaStyleMapping,
+  StyleBindingEntry,
+  StyleBindingReport,
+  TextStyleSpec,
+  TextStyleValue,
+} from '../types';
+import { isTokenRef } from './tokens';
+
+/**
+ * Snapshot of the local Figma variables and styles a spec can bind to. The
+ * plugin controller builds it from the Plugin API so the matching rules below
+ * stay free of Figma globals.
+ */
+export interface StyleCatalog {
+  variables: CatalogColor[];
+  paintStyles: CatalogColor[];
+  textStyles: CatalogTextStyle[];
+}
+
+export interface CatalogColor {
+  id: string;
+  name: string;
+  /** Six digit lowercase HEX of the resolved colour, if it is a plain colour. */
+  color?: string;
+  opacity?: number;
+}
+
+export interface CatalogTextStyle {
+  id: string;
+  name: string;
+  style: TextStyleSpec;
+}
+
+export interface StyleMatch {
+  id: string;
+  name: string;
+  via: StyleBindingEntry['via'];
+}
+
+export function createEmptyCatalog(): StyleCatalog {
+  return { variables: [], paintStyles: [], textStyles: [] };
+}
+
+/**
+ * Normalises a token, variable or style name so that `color.brand.primary`,
+ * `Color/Brand/Primary` and `color / brand / primary` compare equal.
+ */
+export function normalizeStyleName(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[./]/)
+    .map((part) => part.trim().replace(/\s+/g, '-'))
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Expands a resolved colour into six digit lowercase HEX and alpha. Returns
+ * `undefined` for values that cannot be parsed.
+ */
+export function normalizeColor(color: string): { hex: string; alpha: number } | undefined {
+  const value = color.trim().toLowerCase();
+  const hexMatch = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hexMatch) {
+    const hex = hexMatch[1].length === 3
+      ? hexMatch[1]
+          .split('')
+          .map((char) => char + char)
+          .join('')
+      : hexMatch[1];
+    return { hex: `#${hex}`, alpha: 1 };
+  }
+  const rgbaMatch = value.match(/^rgba?\(([^)]+)\)$/);
+  if (rgbaMatch) {
+    const parts = rgbaMatch[1].split(',').map((part) => Number(part.trim()));
+    const hex = parts
+      .slice(0, 3)
+      .map((part) => Math.round(part).toString(16).padStart(2, '0'))
+      .join('');
+    return { hex: `#${hex}`, alpha: parts.length > 3 ? parts[3] : 1 };
+  }
+  return undefined;
+}
+
+function findByName<T extends { name: string }>(items: T[], name: string): T | undefined {
+  const normalized = normalizeStyleName(name);
+  return items.find((item) => normalizeStyleName(item.name) === normalized);
+}
+
+/**
+ * Finds the variable or paint style a spec colour should bind to. Explicit
+ * mappings win, then token names are matched against variable and style
+ * names, and finally literal colours are matched by value. Variables are
+ * preferred over paint styles.
+ */
+export function matchColor(
+  value: ColorValue,
+  resolved: string | undefined,
+  opacity: number | undefined,
+  catalog: StyleCatalog,
+  mapping?: FigmaStyleMapping,
+): StyleMatch | undefined {
+  const key = isTokenRef(value) ? value.token : value;
+  const byName = (name: string): StyleMatch | undefined => {
+    const variable = findByName(catalog.variables, name);
+    if (variable) return { id: variable.id, name: variable.name, via: 'VARIABLE' };
+    const style = findByName(catalog.paintStyles, name);
+    if (style) return { id: style.id, name: style.name, via: 'PAINT_STYLE' };
+    return undefined;
+  };
+
+  const explicit = mapping?.colors?.[key];
+  if (explicit) return byName(explicit);
+  if (isTokenRef(value)) {
+    const match = byName(value.token);
+    if (match) return match;
+  }
+  const color = resolved ? normalizeColor(resolved) : undefined;
+  if (!color) return undefined;
+  const variable = catalog.variables.find((entry) => entry.color === color.hex);
+  if (variable) return { id: variable.id, name: variable.name, via: 'VARIABLE' };
+  const effectiveOpacity = opacity ?? color.alpha;
+  const style = catalog.paintStyles.find(
+    (entry) => entry.color === color.hex && Math.abs((entry.opacity ?? 1) - effectiveOpacity) < 0.005,
+  );
+  if (style) return { id: style.id, name: style.name, via: 'PAINT_STYLE' };
+  return undefined;
+}
+
+/**
+ * Finds the local text style a spec text style should bind to, using the same
+ * precedence as `matchColor`. Literal styles match when family, size, weight
+ * and line height are identical.
+ */
+export function matchTextStyle(
+  value: TextStyleValue,
+  resolved: TextStyleSpec | undefined,
+  catalog: StyleCatalog,
+  mapping?: FigmaStyleMapping,
+): StyleMatch | undefined {
+  const toMatch = (entry?: CatalogTextStyle): StyleMatch | undefined =>
+    entry ? { id: entry.id, name: entry.name, via: 'TEXT_STYLE' } : undefined;
+  if (isTokenRef(value)) {
+    const explicit = mapping?.textStyles?.[value.token];
+    if (explicit) return toMatch(findByName(catalog.textStyles, explicit));
+    const byName = findByName(catalog.textStyles, value.token);
+    if (byName) return toMatch(byName);
+  }
+  if (!resolved) return undefined;
+  return toMatch(
+    catalog.textStyles.find(
+      ({ style }) =>
+        style.fontFamily === resolved.fontFamily &&
+        style.fontSize === resolved.fontSize &&
+        (style.fontWeight ?? 400) === (resolved.fontWeight ?? 400) &&
+        style.lineHeight === resolved.lineHeight,
+    ),
+  );
+}
+
+export function createStyleBindingReport(): StyleBindingReport {
+  return { bound: [], literals: [] };
+}
+
+/**
+ * Adds an entry to the report, ignoring repeats of the same value so that a
+ * colour used across many variants is listed once.
+ */
+export function recordStyleBinding(report: StyleBindingReport, entry: StyleBindingEntry): void {
+  const list = entry.target ? report.bound : report.literals;
+  const exists = list.some(
+    (item) => item.kind === entry.kind && item.value === entry.value && item.target === entry.target,
+  );
+  if (!exists) {
+    list.push(entry);
+  }
+}
@@ -0,0 +1,106 @@
+import { ComponentSpec, ElementSpec, StyleSpec, VariantCombination } from '../types';
+import { toIdentifier } from './capture';
+import {
+  CssDeclarations,
+  elementToCss,
+  formatCssRule,
+  layoutOverrideToCss,
+  resolveStyleTarget,
+  styleToCss,
+  toBlockClass,
+  toElementClass,
+  toVariantAttribute,
+} from './css';
+import { toComponentName } from './react';
+import {
+  flattenElements,
+  getSpecCombinations,
+  resolveStatesForCombination,
+  variantMatchesSelector,
+} from './spec';
+import { findParentElement } from './structure';
+
+/**
+ * Computes the CSS of every element for one variant combination by applying
+ * the structure, the base style and the matching states in the same order as
+ * `createComponentFromSpec`.
+ */
+export function computeCombinationStyles(
+  spec: ComponentSpec,
+  combination: VariantCombination,
+): Map<ElementSpec, CssDeclarations> {
+  const tokens = spec.styleTokens;
+  const result = new Map<ElementSpec, CssDeclarations>();
+  flattenElements(spec.structure).forEach((element) => {
+    const parent = findParentElement(spec.structure, element.id);
+    result.set(element, elementToCss(element, element === spec.structure, tokens, parent));
+  });
+  const apply = (style: StyleSpec) => {
+    const { elements, layout, ...rest } = style;
+    Object.assign(result.get(spec.structure)!, styleToCss(rest, spec.structure.type, tokens));
+    if (layout) Object.assign(result.get(spec.structure)!, layoutOverrideToCss(layout));
+    Object.entries(elements ?? {}).forEach(([key, elementStyle]) => {
+      const target = resolveStyleTarget(spec.structure, key);
+      if (target) Object.assign(result.get(target)!, styleToCss(elementStyle, target.type, tokens));
+    });
+  };
+  if (spec.baseStyle) apply(spec.baseStyle);
+  resolveStatesForCombination(spec.states, combination).forEach((state) => apply(state.style));
+  flattenElements(spec.structure)
+    .filter((element) => !variantMatchesSelector(combination, element.visibleWhen))
+    .forEach((element) => {
+      result.get(element)!.display = 'none';
+    });
+  return result;
+}
+
+/**
+ * Generates a stylesheet with one rule per generated variant combination,
+ * leaving out excluded ones. Properties that differ between combinations are exposed as custom properties set on
+ * `[data-<group>="<value>"]` selectors and consumed by a shared rule per
+ * element; properties that never change are written literally.
+ */
+export function generateVariantStylesheet(spec: ComponentSpec): string {
+  const block = toBlockClass(toComponentName(spec.name));
+  const elements = flattenElements(spec.structure);
+  const combinations = getSpecCombinations(spec).map((combination) => ({
+    combination,
+    styles: computeCombinationStyles(spec, combination),
+  }));
+
+  const variableName = (element: ElementSpec, property: string) =>
+    element === spec.structure ? `--${block}-${property}` : `--${block}-${toIdentifier(element.id)}-${property}`;
+  const isConstant = (element: ElementSpec, property: string) => {
+    const values = combinations.map(({ styles }) => styles.get(element)![property]);
+    return values.every((value) => typeof value !== 'undefined' && value === values[0]);
+  };
+
+  const rules: string[] = [];
+  elements.forEach((element) => {
+    const properties = new Set<string>();
+    combinations.forEach(({ styles }) => Object.keys(styles.get(element)!).forEach((key) => properties.add(key)));
+    const declarations: CssDeclarations = {};
+    properties.forEach((property) => {
+      declarations[property] = isConstant(element, property)
+        ? combinations[0].styles.get(element)![property]
+        : `var(${variableName(element, property)})`;
+    });
+    const selector = element === spec.structure ? `.${block}` : `.${block} .${toElementClass(block, element)}`;
+    if (Object.keys(declarations).length) rules.push(formatCssRule(selector, declarations));
+  });
+
+  combinations.forEach(({ combination, styles }) => {
+    const attributes = spec.variantGroups
+      .map(({ name }) => `[${toVariantAttribute(name)}="${combination[name].replace(/"/g, '\\"')}"]`)
+      .join('');
+    const declarations: CssDeclarations = {};
+    elements.forEach((element) => {
+      Object.entries(styles.get(element)!).forEach(([property, value]) => {
+        if (!isConstant(element, property)) declarations[variableName(element, property)] = value;
+      });
+    });
+    if (Object.keys(declarations).length) rules.push(formatCssRule(`.${block}${attributes}`, declarations));
+  });
+
+  return `${rules.join('\n\n')}\n`;
+}
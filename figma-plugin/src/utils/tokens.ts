@@ -0,0 +1,109 @@
+import {
+  ColorValue,
+  ComponentSpec,
+  DesignTokensRef,
+  ElementSpec,
+  ElementStyleSpec,
+  StyleSpec,
+  TextStyleSpec,
+  TextStyleValue,
+  TokenRef,
+} from '../types';
+import { getFillColors } from './paints';
+import { flattenElements } from './spec';
+
+/**
+ * Type guard for `{ token: 'name' }` references used in place of literal
+ * colours and text styles.
+ */
+export function isTokenRef(value: unknown): value is TokenRef {
+  return !!value && typeof value === 'object' && typeof (value as TokenRef).token === 'string';
+}
+
+/**
+ * Resolves a colour value against the token library. Literal colours are
+ * returned as-is; unknown tokens resolve to `undefined`.
+ */
+export function resolveColor(value: ColorValue, tokens?: DesignTokensRef): string | undefined {
+  if (!isTokenRef(value)) return value;
+  return tokens?.colors?.[value.token];
+}
+
+/**
+ * Resolves a text style value against the token library. Literal styles are
+ * returned as-is; unknown tokens resolve to `undefined`.
+ */
+export function resolveTextStyle(
+  value: TextStyleValue | undefined,
+  tokens?: DesignTokensRef,
+): TextStyleSpec | undefined {
+  if (!value) return undefined;
+  if (!isTokenRef(value)) return value;
+  return tokens?.textStyles?.[value.token];
+}
+
+/**
+ * Formats a colour value for text inputs. Token references use the
+ * `{token.name}` notation.
+ */
+export function formatColorValue(value?: ColorValue): string {
+  if (!value) return '';
+  return isTokenRef(value) ? `{${value.token}}` : value;
+}
+
+/**
+ * Parses user input into a colour value, turning `{token.name}` into a token
+ * reference.
+ */
+export function parseColorValue(input: string): ColorValue {
+  const match = input.trim().match(/^\{\s*([^{}\s]+)\s*\}$/);
+  return match ? { token: match[1] } : input.trim();
+}
+
+/**
+ * Renames a token in the library and updates every reference to it. The spec
+ * is modified in place, which suits the UI's draft-based `updateSpec` flow.
+ * Returns false, leaving the spec alone, when the token does not exist or
+ * another token already has the new name.
+ */
+export function renameToken(
+  spec: ComponentSpec,
+  kind: 'colors' | 'textStyles',
+  oldName: string,
+  newName: string,
+): boolean {
+  const library = spec.styleTokens?.[kind] as Record<string, unknown> | undefined;
+  if (!library || !(oldName in library) || oldName === newName || newName in library) return false;
+  library[newName] = library[oldName];
+  delete library[oldName];
+  const mapping = spec.figmaStyles?.[kind];
+  if (mapping && oldName in mapping) {
+    mapping[newName] = mapping[oldName];
+    delete mapping[oldName];
+  }
+
+  const renameRef = (value: unknown) => {
+    if (isTokenRef(value) && value.token === oldName) {
+      value.token = newName;
+    }
+  };
+  const visit = (style: StyleSpec | ElementStyleSpec | ElementSpec) => {
+    if (kind === 'colors') {
+      style.fills?.forEach((fill) => getFillColors(fill).forEach(renameRef));
+      style.strokes?.forEach((stroke) => renameRef(stroke.color));
+      style.effects?.forEach((effect) => {
+        if ('color' in effect) renameRef(effect.color);
+      });
+    } else if ('textStyle' in style) {
+      renameRef(style.textStyle);
+    }
+    if ('elements' in style && style.elements) {
+      Object.values(style.elements).forEach(visit);
+    }
+  };
+
+  flattenElements(spec.structure).forEach(visit);
+  if (spec.baseStyle) visit(spec.baseStyle);
+  spec.states.forEach((state) => visit(state.style));
+  return true;
+}
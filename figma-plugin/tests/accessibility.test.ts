@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { compositeColor, contrastRatio, findAccessibilityIssues, parseRgba } from '../src/utils/accessibility';
+import { validateSpec } from '../src/utils/spec';
+
+describe('accessibility checks', () => {
+  it('computes WCAG contrast ratios of composited colours', () => {
+    expect(contrastRatio([0, 0, 0], [255, 255, 255])).toBeCloseTo(21);
+    expect(contrastRatio([255, 255, 255], [255, 255, 255])).toBe(1);
+    expect(parseRgba('rgba(255, 0, 0, 0.5)')).toEqual({ rgb: [255, 0, 0], alpha: 0.5 });
+    expect(parseRgba('#fff')).toEqual({ rgb: [255, 255, 255], alpha: 1 });
+    expect(compositeColor([255, 255, 255], 0.5, [0, 0, 0])).toEqual([127.5, 127.5, 127.5]);
+  });
+
+  it('flags the translucent disabled button label for every size', () => {
+    const spec = createSpecFromTemplate('button');
+    const contrast = findAccessibilityIssues(spec).filter((issue) => issue.code === 'a11y.contrast');
+    expect(contrast.map((issue) => issue.message)).toEqual(
+      ['sm', 'md', 'lg'].map(
+        (size) => `Text "Label" has a contrast ratio of 1.61:1 in size=${size}, state=disabled; WCAG AA requires 4.5:1.`,
+      ),
+    );
+    const disabled = spec.states.findIndex((state) => state.name === 'disabled');
+    expect(contrast[0].path).toBe(`states[${disabled}].style.elements.label.fills`);
+  });
+
+  it('points contrast issues at the background when the text keeps its own fill', () => {
+    const spec = createSpecFromTemplate('button');
+    const disabled = spec.states.findIndex((state) => state.name === 'disabled');
+    spec.states[disabled].style.elements = {};
+    const contrast = findAccessibilityIssues(spec).filter((issue) => issue.code === 'a11y.contrast');
+    expect(contrast.map((issue) => issue.path)).toEqual([
+      `states[${disabled}].style.fills`,
+      `states[${disabled}].style.fills`,
+      `states[${disabled}].style.fills`,
+    ]);
+  });
+
+  it('relaxes the contrast threshold for large text', () => {
+    const spec = createSpecFromTemplate('button');
+    const disabled = spec.states.find((state) => state.name === 'disabled')!;
+    disabled.style.fills = [{ type: 'SOLID', color: '#5b7cf0' }];
+    disabled.style.elements = { label: { fills: [{ type: 'SOLID', color: '#ffffff' }] } };
+    expect(findAccessibilityIssues(spec).some((issue) => issue.code === 'a11y.contrast')).toBe(true);
+    disabled.style.elements.label.textStyle = { fontFamily: 'Inter', fontSize: 24 };
+    expect(findAccessibilityIssues(spec).some((issue) => issue.code === 'a11y.contrast')).toBe(false);
+  });
+
+  it('reports targets below the minimum size from resolved padding', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states.find((state) => state.name === 'size-sm')!.style.layout = { autolayout: { padding: 2, gap: 4 } };
+    const issues = findAccessibilityIssues(spec).filter((issue) => issue.code === 'a11y.target.size');
+    expect(issues).toHaveLength(4);
+    expect(issues[0].message).toBe('The target in size=sm, state=default is about ?×18px, below the 24×24px minimum.');
+    expect(issues[0].path).toBe(`states[${spec.states.findIndex((state) => state.name === 'size-sm')}].style.layout`);
+  });
+
+  it('asks interactive specs for a focus state', () => {
+    const spec = createSpecFromTemplate('button');
+    expect(findAccessibilityIssues(spec).find((issue) => issue.code === 'a11y.focus.missing')?.path).toBe(
+      'variantGroups[0].values',
+    );
+    spec.variantGroups[0].values.push('focus-visible');
+    expect(findAccessibilityIssues(spec).some((issue) => issue.code === 'a11y.focus.missing')).toBe(false);
+    expect(findAccessibilityIssues(createSpecFromTemplate('badge')).some((issue) => issue.code === 'a11y.focus.missing')).toBe(
+      false,
+    );
+
+    const captured = createSpecFromTemplate('badge');
+    captured.template = 'custom';
+    captured.variantGroups.push({ name: 'interaction', values: ['rest', 'Pressed'] });
+    expect(findAccessibilityIssues(captured).find((issue) => issue.code === 'a11y.focus.missing')?.path).toBe(
+      'variantGroups[3].values',
+    );
+  });
+
+  it('surfaces findings as validation warnings', () => {
+    const result = validateSpec(createSpecFromTemplate('button'));
+    expect(result.ok).toBe(true);
+    expect(result.warnings.map((issue) => issue.code)).toContain('a11y.contrast');
+  });
+});
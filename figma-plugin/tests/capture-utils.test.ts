@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CapturedVariant,
+  buildCapturedStates,
+  diffElementStyle,
+  findMissingCombinations,
+  reserveIdentifier,
+  toHexColor,
+  toIdentifier,
+  toPropKey,
+} from '../src/utils/capture';
+
+describe('capture utilities', () => {
+  it('converts figma colours to hex', () => {
+    expect(toHexColor({ r: 1, g: 1, b: 1 })).toBe('#ffffff');
+    expect(toHexColor({ r: 31 / 255, g: 90 / 255, b: 246 / 255 })).toBe('#1f5af6');
+  });
+
+  it('derives identifiers from layer and property names', () => {
+    expect(toIdentifier('Icon/Left')).toBe('icon-left');
+    expect(toPropKey('Leading Icon#12:4')).toBe('leadingIcon');
+    const taken = new Set<string>();
+    expect(reserveIdentifier('label', taken)).toBe('label');
+    expect(reserveIdentifier('label', taken)).toBe('label-2');
+  });
+
+  it('diffs only the properties that changed', () => {
+    const base = { fills: [{ type: 'SOLID' as const, color: '#1f5af6' }], visible: true };
+    expect(diffElementStyle(base, { ...base })).toBeUndefined();
+    expect(diffElementStyle(base, { ...base, visible: false })).toEqual({ visible: false });
+  });
+
+  it('builds one state per variant with style diffs', () => {
+    const base: CapturedVariant = {
+      combination: { state: 'default' },
+      root: { fills: [{ type: 'SOLID', color: '#1f5af6' }] },
+      elements: { label: { fills: [{ type: 'SOLID', color: '#ffffff' }] } },
+    };
+    const hover: CapturedVariant = {
+      combination: { state: 'hover' },
+      root: { fills: [{ type: 'SOLID', color: '#2e6afe' }] },
+      elements: { label: { fills: [{ type: 'SOLID', color: '#ffffff' }] } },
+    };
+    const states = buildCapturedStates([base, hover], base);
+    expect(states).toHaveLength(2);
+    expect(states[0].style).toEqual({});
+    expect(states[1].appliesTo).toEqual({ state: 'hover' });
+    expect(states[1].style.fills?.[0]).toMatchObject({ color: '#2e6afe' });
+    expect(states[1].style.elements).toBeUndefined();
+  });
+
+  it('excludes the combinations a sparse set has no variant for', () => {
+    const variant = (combination: CapturedVariant['combination']): CapturedVariant => ({ combination, root: {}, elements: {} });
+    const groups = [
+      { name: 'state', values: ['off', 'on'] },
+      { name: 'loading', values: ['false', 'true'] },
+    ];
+    const variants = [
+      variant({ state: 'off', loading: 'false' }),
+      variant({ state: 'on', loading: 'false' }),
+      variant({ state: 'off', loading: 'true' }),
+    ];
+    expect(findMissingCombinations(groups, variants)).toEqual([{ state: 'on', loading: 'true' }]);
+  });
+});
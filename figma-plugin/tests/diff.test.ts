@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { diffValues } from '../src/utils/diff';
+
+describe('value diff', () => {
+  it('lists changed leaves with validation-style paths', () => {
+    const before = { states: [{ name: 'hover', appliesTo: { state: 'hovr' } }], elements: { lable: 1 } };
+    const after = { states: [{ name: 'hover', appliesTo: { state: 'hover' } }], elements: { label: 1 } };
+    expect(diffValues(before, after)).toEqual([
+      { path: 'states[0].appliesTo.state', before: 'hovr', after: 'hover' },
+      { path: 'elements.lable', before: 1, after: undefined },
+      { path: 'elements.label', before: undefined, after: 1 },
+    ]);
+  });
+
+  it('reports removed list items instead of shifted indexes', () => {
+    const bindings = [{ propName: 'a' }, { propName: 'b' }, { propName: 'c' }];
+    expect(diffValues({ bindings }, { bindings: [bindings[0], bindings[2]] })).toEqual([
+      { path: 'bindings[1]', before: { propName: 'b' } },
+    ]);
+    expect(diffValues([1], [1, 2])).toEqual([{ path: '[1]', after: 2 }]);
+  });
+});
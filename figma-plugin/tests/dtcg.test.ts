@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { importDtcgTokens, isDtcgDocument } from '../src/utils/dtcg';
+
+describe('DTCG token import', () => {
+  const document = {
+    color: {
+      $type: 'color',
+      blue: { 500: { $value: '#1f5af6' } },
+      overlay: { $value: '#00000080' },
+      brand: { primary: { $value: '{color.blue.500}' } },
+    },
+    font: {
+      family: { sans: { $type: 'fontFamily', $value: ['Inter', 'sans-serif'] } },
+      size: { md: { $type: 'dimension', $value: '16px' } },
+    },
+    typography: {
+      body: {
+        $type: 'typography',
+        $value: {
+          fontFamily: '{font.family.sans}',
+          fontSize: '{font.size.md}',
+          fontWeight: 'semi-bold',
+          lineHeight: 1.5,
+          letterSpacing: '0.8px',
+        },
+      },
+    },
+    spacing: {
+      $type: 'dimension',
+      sm: { $value: '4px' },
+      md: { $value: '8px' },
+    },
+  };
+
+  it('detects token documents and ignores component specs', () => {
+    expect(isDtcgDocument(document)).toBe(true);
+    expect(isDtcgDocument({ name: 'Button', structure: {}, variantGroups: {} })).toBe(false);
+    expect(isDtcgDocument({ color: { blue: '#fff' } })).toBe(false);
+  });
+
+  it('imports colours with inherited types and resolved aliases', () => {
+    const { tokens } = importDtcgTokens(document);
+    expect(tokens.colors).toEqual({
+      'color.blue.500': '#1f5af6',
+      'color.overlay': 'rgba(0, 0, 0, 0.5)',
+      'color.brand.primary': '#1f5af6',
+    });
+  });
+
+  it('maps typography composites onto text styles', () => {
+    const { tokens } = importDtcgTokens(document);
+    expect(tokens.textStyles?.['typography.body']).toEqual({
+      fontFamily: 'Inter',
+      fontSize: 16,
+      fontWeight: 600,
+      lineHeight: 24,
+      letterSpacing: 5,
+    });
+  });
+
+  it('reports unsupported types and broken aliases as warnings', () => {
+    const { warnings } = importDtcgTokens({
+      ...document,
+      color: { $type: 'color', broken: { $value: '{color.missing}' } },
+    });
+    const codes = warnings.map((issue) => issue.code);
+    expect(codes).toContain('token.alias.unresolved');
+    const skipped = warnings.filter((issue) => issue.code === 'token.type.unsupported');
+    expect(skipped.map((issue) => issue.path)).toEqual(['font.family.sans', 'font.size.md']);
+    expect(skipped[1].message).toContain('3 "dimension" tokens');
+  });
+
+  it('reports untyped tokens that alias each other as a cycle', () => {
+    const { tokens, warnings } = importDtcgTokens({ a: { $value: '{b}' }, b: { $value: '{a}' } });
+    expect(tokens).toEqual({});
+    expect(warnings.map((issue) => issue.code)).toEqual(['token.alias.cycle', 'token.alias.cycle']);
+    expect(warnings[0].message).toBe('Token "a" has a circular alias: b → a → b.');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createHistory,
+  HISTORY_COALESCE_MS,
+  HISTORY_LIMIT,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from '../src/utils/history';
+
+describe('edit history', () => {
+  it('undoes and redoes edits in order', () => {
+    let history = createHistory<number>();
+    history = recordHistory(history, 1, { label: 'Set 2' }, 0);
+    history = recordHistory(history, 2, { label: 'Set 3' }, 5000);
+
+    const undone = undoHistory(history, 3)!;
+    expect(undone.value).toBe(2);
+    expect(undone.label).toBe('Set 3');
+    const undoneTwice = undoHistory(undone.history, undone.value)!;
+    expect(undoneTwice.value).toBe(1);
+    expect(undoHistory(undoneTwice.history, 1)).toBeNull();
+
+    const redone = redoHistory(undoneTwice.history, 1)!;
+    expect(redone.value).toBe(2);
+    expect(redone.label).toBe('Set 2');
+    expect(redoHistory(redone.history, 2)!.value).toBe(3);
+  });
+
+  it('coalesces rapid edits to the same field', () => {
+    let history = createHistory<string>();
+    history = recordHistory(history, '', { label: 'Changed fill', coalesceKey: 'fill' }, 0);
+    history = recordHistory(history, '#', { label: 'Changed fill', coalesceKey: 'fill' }, 200);
+    history = recordHistory(history, '#1', { label: 'Changed fill', coalesceKey: 'fill' }, 400);
+    expect(history.past).toHaveLength(1);
+    expect(undoHistory(history, '#1f')!.value).toBe('');
+
+    const later = 400 + HISTORY_COALESCE_MS + 1;
+    history = recordHistory(history, '#1f', { label: 'Changed fill', coalesceKey: 'fill' }, later);
+    history = recordHistory(history, '#1f5', { label: 'Changed stroke', coalesceKey: 'stroke' }, later + 100);
+    expect(history.past.map((entry) => entry.snapshot)).toEqual(['', '#1f', '#1f5']);
+  });
+
+  it('clears the redo stack on a new edit and caps the history', () => {
+    let history = createHistory<number>();
+    for (let value = 0; value < HISTORY_LIMIT + 5; value += 1) {
+      history = recordHistory(history, value, { label: `Set ${value + 1}` }, value * 5000);
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].snapshot).toBe(5);
+
+    const undone = undoHistory(history, HISTORY_LIMIT + 5)!;
+    expect(undone.history.future).toHaveLength(1);
+    expect(recordHistory(undone.history, undone.value, { label: 'Branch' }, 0).future).toEqual([]);
+  });
+});
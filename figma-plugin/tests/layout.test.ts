@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { AutoLayoutSpec, ElementSpec } from '../src/types';
+import { autoLayoutToCss, elementToCss, layoutOverrideToCss } from '../src/utils/css';
+import { getCounterAlignment, mergeAutoLayoutOverride, resolveAbsolutePosition } from '../src/utils/layout';
+import { validateSpec } from '../src/utils/spec';
+
+const row: AutoLayoutSpec = { direction: 'HORIZONTAL', gap: 8, padding: 0, alignment: 'SPACE_BETWEEN' };
+
+describe('auto layout alignment and wrapping', () => {
+  it('derives the counter alignment unless it is set', () => {
+    expect(getCounterAlignment(row)).toBe('CENTER');
+    expect(getCounterAlignment({ ...row, counterAlignment: 'END' })).toBe('END');
+    expect(getCounterAlignment({ ...row, counterAlignment: 'BASELINE' })).toBe('BASELINE');
+    expect(getCounterAlignment({ ...row, direction: 'VERTICAL', counterAlignment: 'BASELINE' })).toBe('START');
+  });
+
+  it('maps wrap, row gap and baseline alignment onto flexbox', () => {
+    expect(autoLayoutToCss({ ...row, alignment: 'START', counterAlignment: 'BASELINE', wrap: true, rowGap: 4 })).toEqual({
+      'flex-direction': 'row',
+      gap: '4px 8px',
+      padding: '0px 0px 0px 0px',
+      'justify-content': 'flex-start',
+      'align-items': 'baseline',
+      'flex-wrap': 'wrap',
+      'align-content': 'flex-start',
+    });
+    expect(autoLayoutToCss({ ...row, direction: 'VERTICAL', wrap: true })).not.toHaveProperty('flex-wrap');
+  });
+});
+
+describe('absolute positioning', () => {
+  it('keeps what a layout override leaves out, including the counter alignment', () => {
+    const wrapped: AutoLayoutSpec = { ...row, counterAlignment: 'END', wrap: true, rowGap: 4 };
+    expect(mergeAutoLayoutOverride(wrapped, { gap: 12 })).toEqual({ ...wrapped, gap: 12 });
+    expect(mergeAutoLayoutOverride(row, { align: 'start', padding: 4 })).toEqual({
+      ...row,
+      alignment: 'START',
+      counterAlignment: 'CENTER',
+      padding: 4,
+    });
+    expect(layoutOverrideToCss({ autolayout: { gap: 12 } })).toEqual({ gap: '12px' });
+    expect(layoutOverrideToCss({ autolayout: { align: 'end' } })).toEqual({ 'justify-content': 'flex-end' });
+  });
+
+  it('pins elements to the parent edges', () => {
+    const parent = { width: 100, height: 40 };
+    const dot = { width: 8, height: 8 };
+    expect(resolveAbsolutePosition({ top: -2, right: -2 }, parent, dot)).toEqual({
+      x: 94,
+      y: -2,
+      width: 8,
+      height: 8,
+      constraints: { horizontal: 'MAX', vertical: 'MIN' },
+    });
+    expect(resolveAbsolutePosition({ left: 4, right: 4, bottom: 0 }, parent, dot)).toMatchObject({
+      x: 4,
+      y: 32,
+      width: 92,
+      constraints: { horizontal: 'STRETCH', vertical: 'MAX' },
+    });
+  });
+
+  it('positions elements relative to their parent in CSS', () => {
+    const dot: ElementSpec = { id: 'dot', name: 'Dot', type: 'ELLIPSE', position: { top: 0, right: 0 } };
+    const frame: ElementSpec = { id: 'frame', name: 'Frame', type: 'FRAME', layout: row, children: [dot] };
+    expect(elementToCss(frame, false).position).toBe('relative');
+    expect(elementToCss(dot, false, undefined, frame)).toMatchObject({ position: 'absolute', top: '0px', right: '0px' });
+  });
+
+  it('warns about horizontal-only options and a positioned root', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.structure.layout = { ...spec.structure.layout!, direction: 'VERTICAL', wrap: true };
+    spec.structure.position = { top: 0 };
+    const codes = validateSpec(spec).warnings.map((issue) => issue.code);
+    expect(codes).toEqual(expect.arrayContaining(['layout.horizontal.only', 'position.root']));
+  });
+});
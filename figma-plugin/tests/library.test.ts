@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { SpecLibraryEntry } from '../src/types';
+import { createDuplicateName, parseLibraryIndex, removeLibraryEntry, upsertLibraryEntry } from '../src/utils/library';
+
+describe('spec library', () => {
+  const entries: SpecLibraryEntry[] = [
+    { id: 'a', name: 'Button', template: 'button', updatedAt: 1 },
+    { id: 'b', name: 'Badge', template: 'badge', updatedAt: 2 },
+  ];
+
+  it('updates entries in place and keeps the most recent first', () => {
+    const spec = { ...createSpecFromTemplate('button'), id: 'a', name: 'Primary button' };
+    const result = upsertLibraryEntry(entries, spec, 3);
+    expect(result.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(result[0]).toEqual({ id: 'a', name: 'Primary button', template: 'button', updatedAt: 3 });
+    expect(removeLibraryEntry(result, 'a').map((entry) => entry.id)).toEqual(['b']);
+  });
+
+  it('keeps the generated node of an entry until a new one is given', () => {
+    const spec = { ...createSpecFromTemplate('button'), id: 'a' };
+    const linked = upsertLibraryEntry(entries, spec, 3, '12:34');
+    expect(upsertLibraryEntry(linked, spec, 4)[0].nodeId).toBe('12:34');
+    expect(upsertLibraryEntry(linked, spec, 5, '56:78')[0].nodeId).toBe('56:78');
+  });
+
+  it('reads the document index and ignores malformed data', () => {
+    expect(parseLibraryIndex(JSON.stringify(entries))).toEqual(entries);
+    expect(parseLibraryIndex(JSON.stringify([{ id: 'x' }, ...entries]))).toEqual(entries);
+    expect(parseLibraryIndex('')).toEqual([]);
+    expect(parseLibraryIndex('{not json')).toEqual([]);
+  });
+
+  it('picks unused names for duplicates', () => {
+    expect(createDuplicateName('Button', entries)).toBe('Button copy');
+    const withCopy = [...entries, { id: 'c', name: 'Button copy', template: 'button' as const, updatedAt: 4 }];
+    expect(createDuplicateName('Button', withCopy)).toBe('Button copy 2');
+    expect(createDuplicateName('Button copy', withCopy)).toBe('Button copy 2');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { GradientFillSpec } from '../src/types';
+import { fillsToBackground, strokesToCss } from '../src/utils/css';
+import {
+  angleFromGradientTransform,
+  describeFill,
+  gradientTransformFromAngle,
+  getFillColors,
+} from '../src/utils/paints';
+import { validateSpec } from '../src/utils/spec';
+
+const gradient: GradientFillSpec = {
+  type: 'GRADIENT_LINEAR',
+  angle: 90,
+  stops: [
+    { position: 0, color: { token: 'color.brand.primary' } },
+    { position: 1, color: '#000000', opacity: 0.5 },
+  ],
+};
+
+describe('gradient and image fills', () => {
+  it('converts CSS angles to Figma gradient transforms and back', () => {
+    expect(gradientTransformFromAngle(90)).toEqual([
+      [1, 0, 0],
+      [0, 1, 0],
+    ]);
+    expect(gradientTransformFromAngle(180)).toEqual([
+      [0, 1, 0],
+      [-1, 0, 1],
+    ]);
+    [0, 45, 135, 180, 270, 315].forEach((angle) => {
+      expect(angleFromGradientTransform(gradientTransformFromAngle(angle))).toBe(angle);
+    });
+  });
+
+  it('renders fills as CSS background layers', () => {
+    const tokens = { colors: { 'color.brand.primary': '#1f5af6' } };
+    expect(fillsToBackground([gradient], tokens)).toBe(
+      'linear-gradient(90deg, var(--color-brand-primary, #1f5af6) 0%, rgba(0, 0, 0, 0.5) 100%)',
+    );
+    expect(
+      fillsToBackground(
+        [
+          { type: 'IMAGE', imageBase64: 'iVBORw0KGgo=', scaleMode: 'FIT' },
+          { type: 'GRADIENT_RADIAL', stops: gradient.stops },
+          { type: 'SOLID', color: '#ffffff' },
+        ],
+        tokens,
+      ),
+    ).toBe(
+      'linear-gradient(#ffffff, #ffffff), ' +
+        'radial-gradient(closest-side, var(--color-brand-primary, #1f5af6) 0%, rgba(0, 0, 0, 0.5) 100%), ' +
+        'url("data:image/png;base64,iVBORw0KGgo=") center / contain no-repeat',
+    );
+  });
+
+  it('describes fills and lists their colours', () => {
+    expect(describeFill(gradient)).toBe('Linear gradient {color.brand.primary} → #000000');
+    expect(describeFill({ type: 'IMAGE', imageBase64: '', scaleMode: 'TILE' })).toBe('Image (tile)');
+    expect(getFillColors(gradient)).toEqual([{ token: 'color.brand.primary' }, '#000000']);
+  });
+
+  it('validates gradient stops and image data', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states[0].style.fills = [
+      { type: 'GRADIENT_ANGULAR', stops: [{ position: 1.5, color: '#12345' }] },
+      { type: 'IMAGE', imageBase64: 'data:image/png;base64,abc', scaleMode: 'FILL' },
+    ];
+    const codes = validateSpec(spec).errors.map((issue) => issue.code);
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        'style.color.invalid',
+        'style.gradient.stops',
+        'style.gradient.position',
+        'style.image.invalid',
+      ]),
+    );
+  });
+});
+
+describe('stroke geometry', () => {
+  it('maps alignment, per-side weights and dashes onto CSS', () => {
+    expect(strokesToCss([{ type: 'SOLID', color: '#000000', weight: 2, strokeAlign: 'CENTER' }])).toEqual({
+      outline: '2px solid #000000',
+      'outline-offset': '-1px',
+    });
+    expect(
+      strokesToCss([{ type: 'SOLID', color: '#000000', weight: 2, strokeAlign: 'OUTSIDE', dashPattern: [4, 2] }]),
+    ).toEqual({ outline: '2px dashed #000000', 'outline-offset': '0px' });
+    expect(
+      strokesToCss([
+        { type: 'SOLID', color: '#1f5af6', weight: 2, sideWeights: { top: 0, right: 0, bottom: 2, left: 0 } },
+      ]),
+    ).toEqual({
+      outline: 'none',
+      'border-style': 'solid',
+      'border-color': '#1f5af6',
+      'border-width': '0px 0px 2px 0px',
+    });
+  });
+
+  it('rejects negative weights and empty dashes', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states[0].style.strokes = [
+      {
+        type: 'SOLID',
+        color: '#000000',
+        weight: 1,
+        sideWeights: { top: -1, right: 0, bottom: 0, left: 0 },
+        dashPattern: [0],
+      },
+    ];
+    const codes = validateSpec(spec).errors.map((issue) => issue.code);
+    expect(codes).toEqual(expect.arrayContaining(['style.stroke.weight', 'style.stroke.dash']));
+  });
+});
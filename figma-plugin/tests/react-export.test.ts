@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { generateReactComponent, toComponentName } from '../src/utils/react';
+
+describe('React export', () => {
+  it('derives component names from the spec name', () => {
+    expect(toComponentName('Button')).toBe('Button');
+    expect(toComponentName('primary button')).toBe('PrimaryButton');
+    expect(toComponentName('2 col layout')).toBe('Component2ColLayout');
+  });
+
+  it('generates the button component', () => {
+    const [component, stylesheet] = generateReactComponent(createSpecFromTemplate('button'));
+    expect(component.path).toBe('Button.tsx');
+    expect(component.contents).toMatchSnapshot();
+    expect(stylesheet.path).toBe('Button.css');
+    expect(stylesheet.contents).toMatchSnapshot();
+  });
+
+  it('generates the badge component', () => {
+    const files = generateReactComponent(createSpecFromTemplate('badge'));
+    expect(files.map((file) => file.contents)).toMatchSnapshot();
+  });
+
+  it('mounts elements limited to variants conditionally', () => {
+    const [component] = generateReactComponent(createSpecFromTemplate('dropdown'));
+    expect(component.contents).toContain("{listVisible && state === 'open' && (");
+  });
+
+  it('renders state text overrides as conditionals on the variant props', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.bindings = spec.bindings.filter((binding) => binding.type !== 'TEXT');
+    spec.states.find((state) => state.name === 'size-sm')!.textOverrides = { label: 'Go' };
+    spec.states.find((state) => state.name === 'disabled')!.textOverrides = { label: 'Unavailable' };
+    const [component] = generateReactComponent(spec);
+    expect(component.contents).toContain("{size === 'sm' ? 'Go' : state === 'disabled' ? 'Unavailable' : 'Button'}");
+  });
+
+  it('compiles value sets and exclusions in selectors', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states.find((state) => state.name === 'hover')!.appliesTo = { state: ['hover', 'selected'], size: { not: 'sm' } };
+    spec.states.find((state) => state.name === 'disabled')!.textOverrides = { label: 'Unavailable' };
+    spec.states.find((state) => state.name === 'disabled')!.appliesTo = { state: 'disabled', size: '*' };
+    spec.bindings = spec.bindings.filter((binding) => binding.type !== 'TEXT');
+    const [component, stylesheet] = generateReactComponent(spec);
+    expect(stylesheet.contents).toContain(
+      '.cf-button:where(:is([data-state="hover"], [data-state="selected"]):not([data-size="sm"])) {',
+    );
+    expect(component.contents).toContain("{state === 'disabled' ? 'Unavailable' : 'Button'}");
+  });
+
+  it('lets priority rather than selector specificity decide between states', () => {
+    const spec = createSpecFromTemplate('button');
+    const hover = spec.states.find((state) => state.name === 'hover')!;
+    hover.appliesTo = { state: 'hover', size: { not: 'sm' } };
+    spec.states.push({
+      name: 'hover-emphasis',
+      appliesTo: { state: 'hover' },
+      priority: 10,
+      style: { fills: [{ type: 'SOLID', color: '#000000' }] },
+    });
+    const [, stylesheet] = generateReactComponent(spec);
+    const weak = stylesheet.contents.indexOf('.cf-button:where([data-state="hover"]:not([data-size="sm"])) {');
+    const strong = stylesheet.contents.indexOf('.cf-button:where([data-state="hover"]) {');
+    expect(weak).toBeGreaterThan(-1);
+    expect(strong).toBeGreaterThan(weak);
+  });
+
+  it('documents the combinations the spec does not generate', () => {
+    const spec = createSpecFromTemplate('dropdown');
+    spec.excludedCombinations = [{ state: 'disabled', size: 'sm' }];
+    const [component] = generateReactComponent(spec);
+    expect(component.contents).toContain('/** Not defined for (state=disabled, size=sm). */\nexport interface DropdownProps {');
+  });
+
+  it('references colour tokens as custom properties', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.styleTokens = { colors: { 'color.brand.primary': '#1f5af6' } };
+    spec.baseStyle!.fills = [{ type: 'SOLID', color: { token: 'color.brand.primary' } }];
+    const [, stylesheet] = generateReactComponent(spec);
+    expect(stylesheet.contents).toContain('background: var(--color-brand-primary, #1f5af6);');
+  });
+});
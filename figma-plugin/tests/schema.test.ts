@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate, templates } from '../src/templates';
+import { CURRENT_SPEC_VERSION, migrateSpec, parseSpec, validateSpecShape } from '../src/utils/schema';
+
+describe('spec schema', () => {
+  it('accepts every template', () => {
+    templates.forEach((template) => {
+      const result = validateSpecShape(createSpecFromTemplate(template.id));
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  it('reports structural problems with JSON paths', () => {
+    const spec: any = createSpecFromTemplate('button');
+    spec.states[1].style.fills[0].color = 42;
+    spec.structure.children[0].type = 'CIRCLE';
+    delete spec.structure.name;
+    spec.extra = true;
+    const result = validateSpecShape(spec);
+    expect(result.ok).toBe(false);
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      'structure.name',
+      'structure.children[0].type',
+      'states[1].style.fills[0].color',
+    ]);
+    expect(result.warnings.map((issue) => issue.code)).toEqual(['schema.property.unknown']);
+  });
+
+  it('upgrades unversioned specs', () => {
+    const legacy: any = createSpecFromTemplate('toggle');
+    delete legacy.specVersion;
+    delete legacy.bindings;
+    expect(migrateSpec(legacy)).toMatchObject({ specVersion: CURRENT_SPEC_VERSION, bindings: [] });
+    const parsed = parseSpec(legacy);
+    expect(parsed.spec?.bindings).toEqual([]);
+    expect(parsed.migratedFrom).toBe(1);
+  });
+
+  it('rejects specs from newer plugin versions', () => {
+    const parsed = parseSpec({ ...createSpecFromTemplate('button'), specVersion: CURRENT_SPEC_VERSION + 1 });
+    expect(parsed.spec).toBeNull();
+    expect(parsed.result.errors[0].code).toBe('spec.version.unsupported');
+  });
+
+  it('rejects versions no migration covers instead of throwing', () => {
+    [0, 1.5, -1].forEach((specVersion) => {
+      const parsed = parseSpec({ ...createSpecFromTemplate('button'), specVersion });
+      expect(parsed.spec).toBeNull();
+      expect(parsed.result.errors.map((issue) => issue.code)).toEqual(['spec.version.unsupported']);
+      expect(parsed.result.errors[0].message).toBe(`Specification version ${specVersion} is not a version this plugin can read.`);
+    });
+  });
+});
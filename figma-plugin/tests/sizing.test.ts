@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { sizeToCss } from '../src/utils/css';
+import { getSizingMode, resolveChildSizing, resolveTextAutoResize } from '../src/utils/sizing';
+import { validateSpec } from '../src/utils/spec';
+
+describe('sizing modes', () => {
+  it('defaults to fixed with a dimension and to hug without one', () => {
+    expect(getSizingMode({ width: 120 }, 'horizontal', true)).toBe('FIXED');
+    expect(getSizingMode({ width: 120 }, 'vertical', true)).toBe('HUG');
+    expect(getSizingMode(undefined, 'vertical', false)).toBe('FIXED');
+    expect(getSizingMode({ horizontalSizing: 'HUG' }, 'horizontal', false)).toBe('FIXED');
+    expect(getSizingMode({ width: 120, horizontalSizing: 'FILL' }, 'horizontal', true)).toBe('FILL');
+  });
+
+  it('resolves fill against the parent direction', () => {
+    expect(resolveChildSizing({ horizontalSizing: 'FILL' }, 'HORIZONTAL')).toEqual({ layoutGrow: 1, layoutAlign: 'INHERIT' });
+    expect(resolveChildSizing({ horizontalSizing: 'FILL' }, 'VERTICAL')).toEqual({ layoutGrow: 0, layoutAlign: 'STRETCH' });
+    expect(resolveChildSizing({ horizontalSizing: 'FILL', layoutGrow: 0 }, 'HORIZONTAL').layoutGrow).toBe(0);
+  });
+
+  it('derives text auto-resize from the sizing modes', () => {
+    expect(resolveTextAutoResize(undefined)).toBe('WIDTH_AND_HEIGHT');
+    expect(resolveTextAutoResize({ width: 200 })).toBe('HEIGHT');
+    expect(resolveTextAutoResize({ width: 200, height: 20 })).toBe('NONE');
+    expect(resolveTextAutoResize({ textAutoResize: 'TRUNCATE' })).toBe('TRUNCATE');
+  });
+
+  it('maps sizes onto flexbox', () => {
+    expect(sizeToCss({ height: 40, horizontalSizing: 'FILL', maxWidth: 320 }, { parentDirection: 'VERTICAL' })).toEqual({
+      height: '40px',
+      'max-width': '320px',
+      'align-self': 'stretch',
+    });
+    expect(sizeToCss({ width: 80, horizontalSizing: 'FILL' }, { parentDirection: 'HORIZONTAL' })).toEqual({
+      flex: '1 1 0',
+    });
+    expect(sizeToCss({ width: 120, textAutoResize: 'TRUNCATE' }, { type: 'TEXT' })).toEqual({
+      width: '120px',
+      'white-space': 'nowrap',
+      overflow: 'hidden',
+      'text-overflow': 'ellipsis',
+    });
+    expect(sizeToCss({ verticalSizing: 'HUG', horizontalSizing: 'FILL' })).toEqual({ height: 'auto', width: '100%' });
+  });
+
+  it('reports inverted limits and fill outside auto layout', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.structure.size = { minWidth: 200, maxWidth: 100, horizontalSizing: 'FILL' };
+    const result = validateSpec(spec);
+    expect(result.errors.map((issue) => issue.code)).toContain('size.range');
+    expect(result.warnings.map((issue) => issue.code)).toContain('size.fill.parent');
+  });
+});
@@ -2,9 +2,19 @@ import { describe, expect, it } from 'vitest';
 import { createSpecFromTemplate } from '../src/templates';
 import {
   applyAutoFixes,
+  describeAutoFix,
+  findClosestCombination,
+  findClosestName,
+  findStateConflicts,
+  formatSelectorValue,
   generateVariantCombinations,
+  getSpecCombinations,
   isValidColor,
   normalizeVariantValue,
+  parseSelectorValue,
+  resolveStatesForCombination,
+  resolveTextOverride,
+  toNearestHexColor,
   validateSpec,
   variantMatchesSelector,
 } from '../src/utils/spec';
@@ -43,6 +53,131 @@ describe('spec utilities', () => {
     expect(variantMatchesSelector({ state: 'hover', size: 'md' }, selector)).toBe(false);
   });
 
+  it('matches value sets, exclusions and wildcards', () => {
+    const selector: VariantSelector = { state: ['hover', 'selected'], size: { not: 'sm' } };
+    expect(variantMatchesSelector({ state: 'selected', size: 'lg' }, selector)).toBe(true);
+    expect(variantMatchesSelector({ state: 'hover', size: 'sm' }, selector)).toBe(false);
+    expect(variantMatchesSelector({ state: 'default', size: 'md' }, selector)).toBe(false);
+    expect(variantMatchesSelector({ state: 'default' }, { state: '*' })).toBe(true);
+    expect(parseSelectorValue('hover, selected')).toEqual(['hover', 'selected']);
+    expect(parseSelectorValue('!sm')).toEqual({ not: 'sm' });
+    expect(parseSelectorValue(' ')).toBeUndefined();
+    expect(formatSelectorValue({ not: ['sm', 'md'] })).toBe('!sm, md');
+  });
+
+  it('validates state selectors against the variant groups', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states[1].appliesTo = { state: ['hover', 'pressed'], size: { not: 'xl' } };
+    spec.states[2].appliesTo = { state: [] };
+    const errors = validateSpec(spec).errors;
+    expect(errors.map((issue) => issue.code)).toEqual([
+      'selector.value.unknown',
+      'selector.value.unknown',
+      'selector.value.empty',
+    ]);
+    expect(errors[0].path).toBe('states[1].appliesTo.state');
+  });
+
+  it('generates only the included combinations that are not excluded', () => {
+    const spec = createSpecFromTemplate('dropdown');
+    spec.excludedCombinations = [{ state: 'disabled', size: 'sm' }];
+    expect(getSpecCombinations(spec)).toHaveLength(generateVariantCombinations(spec.variantGroups).length - 1);
+    spec.includedCombinations = [{ size: 'sm' }];
+    expect(getSpecCombinations(spec).map((combination) => combination.state)).toEqual(['default', 'open']);
+    expect(findClosestCombination(spec, { state: 'disabled', size: 'md' })).toEqual({ state: 'default', size: 'sm' });
+    expect(findClosestCombination(spec, { state: 'open', size: 'md' }, 'state')).toEqual({ state: 'open', size: 'sm' });
+  });
+
+  it('validates combination selectors and counts only generated variants', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.excludedCombinations = [{ state: 'pressed' }];
+    expect(validateSpec(spec).errors.map((issue) => issue.code)).toEqual(['selector.value.unknown']);
+    spec.excludedCombinations = [{ state: '*' }];
+    expect(validateSpec(spec).errors.map((issue) => issue.code)).toEqual(['variant.none']);
+    spec.variantGroups[1].values = Array.from({ length: 20 }, (_, index) => `size-${index}`);
+    spec.excludedCombinations = [{ state: { not: ['default', 'hover'] } }];
+    const codes = validateSpec(spec).warnings.map((issue) => issue.code);
+    expect(codes).not.toContain('variant.count.large');
+  });
+
+  it('validates visibleWhen selectors against the variant groups', () => {
+    const spec = createSpecFromTemplate('dropdown');
+    expect(validateSpec(spec).ok).toBe(true);
+    const list = spec.structure.children![1];
+    list.visibleWhen = { state: 'closed', tone: 'dark' };
+    const codes = validateSpec(spec).errors.map((issue) => issue.code);
+    expect(codes).toEqual(['selector.value.unknown', 'selector.group.unknown']);
+  });
+
+  it('removes never-matching states and exclusions instead of widening them', () => {
+    const spec = createSpecFromTemplate('button');
+    const combinations = getSpecCombinations(spec).length;
+    spec.states[1].appliesTo = { tone: 'danger' };
+    spec.states[2].appliesTo = { sate: 'selected' };
+    spec.states[3].appliesTo = { state: [] };
+    spec.excludedCombinations = [{ tone: 'x', state: 'disabled' }];
+    spec.structure.children![1].visibleWhen = { tone: 'danger' };
+    const result = validateSpec(spec);
+    expect(result.errors.map((issue) => issue.fixes)).toEqual([
+      undefined,
+      [{ code: 'selector.group.unknown', target: spec.states[1].name, path: 'states[1]' }],
+      [{ code: 'selector.group.unknown', target: 'sate', suggestion: 'state', path: 'states[2].appliesTo.sate' }],
+      [{ code: 'selector.value.empty', target: spec.states[3].name, path: 'states[3]' }],
+      [{ code: 'selector.group.unknown', target: 'tone=x, state=disabled', path: 'excludedCombinations[0]' }],
+    ]);
+
+    const fixed = applyAutoFixes(spec, result.autoFixes ?? []);
+    expect(fixed.states.map((state) => state.name)).toEqual(
+      spec.states.filter((_, index) => index !== 1 && index !== 3).map((state) => state.name),
+    );
+    expect(fixed.states[1].appliesTo).toEqual({ state: 'selected' });
+    expect(fixed.excludedCombinations).toEqual([]);
+    expect(getSpecCombinations(fixed)).toHaveLength(combinations);
+    expect(fixed.structure.children![1].visibleWhen).toEqual({ tone: 'danger' });
+  });
+
+  it('applies text overrides of later states last', () => {
+    const spec = createSpecFromTemplate('button');
+    const label = spec.structure.children![1];
+    spec.states[0].textOverrides = { label: 'Go' };
+    spec.states[1].textOverrides = { 'button-label': 'Hovered' };
+    expect(resolveTextOverride(spec.states, label)).toBe('Hovered');
+    expect(resolveTextOverride([spec.states[0]], label)).toBe('Go');
+    expect(resolveTextOverride([spec.states[2]], label)).toBeUndefined();
+  });
+
+  it('validates text override targets', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states[0].textOverrides = { label: 'Go', 'button-root': 'Nope', missing: 'Nope' };
+    const result = validateSpec(spec);
+    expect(result.errors.map((issue) => issue.code)).toEqual(['text.override.type', 'text.override.target']);
+    expect(result.warnings.map((issue) => issue.code)).toContain('text.override.bound');
+  });
+
+  it('orders matching states by priority, then spec order', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states.find((state) => state.name === 'disabled')!.priority = 2;
+    const names = resolveStatesForCombination(spec.states, { state: 'disabled', size: 'lg' }).map((state) => state.name);
+    expect(names).toEqual(['size-lg', 'disabled']);
+  });
+
+  it('reports conflicting states with the same priority', () => {
+    const spec = createSpecFromTemplate('button');
+    expect(findStateConflicts(spec)).toEqual([]);
+    spec.states.find((state) => state.name === 'size-lg')!.style.elements = {
+      'button-label': { fills: [{ type: 'SOLID', color: '#000000' }] },
+    };
+    spec.states.find((state) => state.name === 'size-lg')!.priority = 0;
+    const conflicts = findStateConflicts(spec);
+    expect(conflicts.map((item) => item.states.map((state) => state.name))).toEqual([
+      ['default', 'size-lg'],
+      ['disabled', 'size-lg'],
+    ]);
+    expect(conflicts[1].properties).toEqual(['textStyle of Button/Container', 'fills of Label']);
+    expect(conflicts[1].combination).toEqual({ size: 'lg', state: 'disabled' });
+    expect(validateSpec(spec).warnings.filter((issue) => issue.code === 'state.conflict')).toHaveLength(2);
+  });
+
   it('suggests auto fixes for duplicate variant values', () => {
     const spec = createSpecFromTemplate('button');
     spec.variantGroups[0].values.push('default');
@@ -51,4 +186,97 @@ describe('spec utilities', () => {
     const fixed = applyAutoFixes(spec, validation.autoFixes ?? []);
     expect(validateSpec(fixed).ok).toBe(true);
   });
+
+  it('fixes formats, duplicates, colours and dangling bindings', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.variantGroups[0].values[1] = 'hover=on';
+    spec.states[1].appliesTo = { state: 'hover=on' };
+    spec.states[2].name = 'default';
+    spec.states[0].style.fills = [{ type: 'SOLID', color: '#1f5af' }];
+    spec.bindings.push({ propName: 'badge', type: 'BOOLEAN', target: { kind: 'NODE', nodeId: 'missing' } });
+    spec.propDefinitions.text!.leadingIcon = { name: 'Leading icon text' };
+    spec.bindings.push({ propName: 'leadingIcon', type: 'TEXT', target: { kind: 'ROLE', role: 'label' } });
+
+    const validation = validateSpec(spec);
+    expect(validation.errors.find((issue) => issue.code === 'state.duplicate')?.fixes).toEqual([
+      { code: 'state.duplicate', target: 'default', suggestion: 'default-2', path: 'states[2].name' },
+    ]);
+    const fixed = applyAutoFixes(spec, validation.autoFixes ?? []);
+    expect(fixed.variantGroups[0].values[1]).toBe('hover-on');
+    expect(fixed.states[1].appliesTo).toEqual({ state: 'hover-on' });
+    expect(fixed.states[2].name).toBe('default-2');
+    expect(fixed.states[0].style.fills).toEqual([{ type: 'SOLID', color: '#1f5aff' }]);
+    expect(fixed.propDefinitions.text!.leadingIconText).toEqual({ name: 'Leading icon text' });
+    expect(fixed.bindings.map((binding) => binding.propName)).not.toContain('badge');
+    expect(fixed.bindings[fixed.bindings.length - 1].propName).toBe('leadingIconText');
+    expect(validateSpec(fixed).errors).toEqual([]);
+  });
+
+  it('converts invalid colours to the nearest hex colour', () => {
+    expect(toNearestHexColor('#12345')).toBe('#123455');
+    expect(toNearestHexColor('1f5af6')).toBe('#1f5af6');
+    expect(toNearestHexColor('rgb(300, 20, -4)')).toBe('#ff1400');
+    expect(toNearestHexColor('fff')).toBe('#fff');
+    expect(toNearestHexColor('#')).toBeUndefined();
+    expect(toNearestHexColor('#ab')).toBeUndefined();
+  });
+
+  it('converts hsl colours and leaves misspelled colour names alone', () => {
+    expect(toNearestHexColor('hsl(200, 50%, 50%)')).toBe('#4095bf');
+    expect(toNearestHexColor('hsla(0 100% 50% / 0.5)')).toBe('#ff0000');
+    expect(toNearestHexColor('hsl(200, 50%)')).toBeUndefined();
+    expect(toNearestHexColor('gren')).toBeUndefined();
+    expect(toNearestHexColor('bleu')).toBeUndefined();
+    expect(toNearestHexColor('#12345g')).toBeUndefined();
+  });
+
+  it('fixes entries whose keys contain dots', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.styleTokens = { colors: { 'color.brand.primary': '#12345' } };
+    spec.states[1].style.elements = { 'labl.text': { cornerRadius: 2 } };
+    const result = validateSpec(spec);
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      'styleTokens.colors["color.brand.primary"]',
+      'states[1].style.elements["labl.text"]',
+    ]);
+
+    const removal = result.autoFixes!.find((fix) => fix.target === 'labl.text')!;
+    expect(describeAutoFix(removal)).toBe('Remove "labl.text"');
+
+    const fixed = applyAutoFixes(spec, result.autoFixes ?? []);
+    expect(fixed.styleTokens?.colors).toEqual({ 'color.brand.primary': '#123455' });
+    expect(fixed.states[1].style.elements).toEqual({});
+    expect(validateSpec(fixed).errors).toEqual([]);
+  });
+
+  it('matches names that are likely typos', () => {
+    expect(findClosestName('hovr', ['default', 'hover', 'selected'])).toBe('hover');
+    expect(findClosestName('Label', ['label', 'leadingIcon'])).toBe('label');
+    expect(findClosestName('pressed', ['default', 'hover'])).toBeUndefined();
+  });
+
+  it('reports references to missing elements, props and variant values', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.states[1].appliesTo = { state: ['hovr'] };
+    spec.states[1].style.elements = { lable: { cornerRadius: 2 } };
+    spec.states[1].propValues = { boolean: { leadingIcn: true }, variant: { size: 'xl' } };
+    spec.bindings[2].target = { kind: 'ROLE', role: 'labl' };
+    spec.bindings[3].target = { kind: 'NODE', nodeId: 'button-label' };
+    const result = validateSpec(spec);
+    expect(result.errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['selector.value.unknown', 'states[1].appliesTo.state'],
+      ['style.element.unknown', 'states[1].style.elements.lable'],
+      ['state.prop.unknown', 'states[1].propValues.boolean.leadingIcn'],
+      ['selector.value.unknown', 'states[1].propValues.variant.size'],
+      ['binding.role.missing', 'bindings[2].target.role'],
+      ['binding.kind.mismatch', 'bindings[3].target'],
+    ]);
+
+    const fixed = applyAutoFixes(spec, result.autoFixes ?? []);
+    expect(fixed.states[1].appliesTo).toEqual({ state: ['hover'] });
+    expect(fixed.states[1].style.elements).toEqual({ label: { cornerRadius: 2 } });
+    expect(fixed.states[1].propValues?.boolean).toEqual({ leadingIcon: true });
+    expect(fixed.bindings[2].target).toEqual({ kind: 'ROLE', role: 'label' });
+    expect(validateSpec(fixed).errors.map((issue) => issue.code)).toEqual(['selector.value.unknown', 'binding.kind.mismatch']);
+  });
 });
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import {
+  addChildElement,
+  indentElement,
+  moveElement,
+  outdentElement,
+  removeElement,
+  setElementId,
+  setElementRole,
+  wrapElementInFrame,
+} from '../src/utils/structure';
+
+const childIds = (children: { id: string }[] | undefined) => (children ?? []).map((child) => child.id);
+
+describe('structure editing', () => {
+  it('adds children with unique ids and only to frames', () => {
+    const spec = createSpecFromTemplate('button');
+    const first = addChildElement(spec, 'button-root', 'ICON');
+    const second = addChildElement(spec, 'button-root', 'ICON');
+    expect(first.id).toBe('button-icon');
+    expect(second.id).toBe('button-icon-2');
+    expect(childIds(spec.structure.children).slice(-2)).toEqual(['button-icon', 'button-icon-2']);
+    expect(() => addChildElement(spec, 'button-label', 'TEXT')).toThrow(/cannot contain/);
+  });
+
+  it('reorders siblings and re-parents elements', () => {
+    const spec = createSpecFromTemplate('button');
+    moveElement(spec, 'button-icon-left', 'button-root', 3);
+    expect(childIds(spec.structure.children)).toEqual(['button-label', 'button-icon-right', 'button-icon-left']);
+
+    const frame = wrapElementInFrame(spec, 'button-label');
+    expect(childIds(spec.structure.children)).toEqual([frame.id, 'button-icon-right', 'button-icon-left']);
+    expect(childIds(frame.children)).toEqual(['button-label']);
+
+    moveElement(spec, 'button-icon-right', 'button-root', 0);
+    indentElement(spec, 'button-icon-left');
+    expect(childIds(frame.children)).toEqual(['button-label', 'button-icon-left']);
+    expect(() => indentElement(spec, frame.id)).toThrow(/after a frame/);
+    expect(() => moveElement(spec, frame.id, frame.id, 0)).toThrow(/into itself/);
+
+    outdentElement(spec, 'button-label');
+    expect(childIds(spec.structure.children)).toEqual(['button-icon-right', frame.id, 'button-label']);
+    expect(childIds(frame.children)).toEqual(['button-icon-left']);
+  });
+
+  it('removes dangling bindings and state styles with the element', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.bindings.push({ propName: 'label', type: 'TEXT', target: { kind: 'NODE', nodeId: 'button-label' } });
+    removeElement(spec, 'button-label');
+    expect(spec.bindings.some((binding) => binding.propName === 'label')).toBe(false);
+    expect(spec.states.find((state) => state.name === 'disabled')!.style.elements).toEqual({});
+    expect(() => removeElement(spec, 'button-root')).toThrow();
+  });
+
+  it('keeps references in sync when the id or role changes', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.bindings.push({ propName: 'label', type: 'TEXT', target: { kind: 'NODE', nodeId: 'button-label' } });
+    setElementId(spec, 'button-label', 'button-title');
+    expect(spec.bindings[spec.bindings.length - 1].target).toEqual({ kind: 'NODE', nodeId: 'button-title' });
+    expect(() => setElementId(spec, 'button-title', 'button-root')).toThrow(/already uses/);
+
+    spec.states[0].textOverrides = { label: 'Go' };
+    setElementRole(spec, 'button-title', 'title');
+    const disabled = spec.states.find((state) => state.name === 'disabled')!;
+    expect(Object.keys(disabled.style.elements!)).toEqual(['title']);
+    expect(spec.bindings.find((binding) => binding.type === 'TEXT')!.target).toEqual({ kind: 'ROLE', role: 'title' });
+    expect(spec.states[0].textOverrides).toEqual({ title: 'Go' });
+
+    setElementRole(spec, 'button-icon-left', '');
+    expect(spec.bindings.some((binding) => binding.target.kind === 'ROLE' && binding.target.role === 'leadingIcon')).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  StyleCatalog,
+  createStyleBindingReport,
+  matchColor,
+  matchTextStyle,
+  normalizeColor,
+  normalizeStyleName,
+  recordStyleBinding,
+} from '../src/utils/styleBindings';
+
+const catalog: StyleCatalog = {
+  variables: [
+    { id: 'v1', name: 'color/brand/primary', color: '#1f5af6', opacity: 1 },
+    { id: 'v2', name: 'color/neutral/white', color: '#ffffff', opacity: 1 },
+  ],
+  paintStyles: [
+    { id: 's1', name: 'Brand/Hover', color: '#2e6afe', opacity: 1 },
+    { id: 's2', name: 'Overlay', color: '#000000', opacity: 0.5 },
+  ],
+  textStyles: [
+    { id: 't1', name: 'Label/Medium', style: { fontFamily: 'Inter', fontSize: 14, fontWeight: 600 } },
+  ],
+};
+
+describe('style bindings', () => {
+  it('normalises names and colours', () => {
+    expect(normalizeStyleName('Color/Brand / Primary')).toBe(normalizeStyleName('color.brand.primary'));
+    expect(normalizeColor('#FFF')).toEqual({ hex: '#ffffff', alpha: 1 });
+    expect(normalizeColor('rgba(0, 0, 0, 0.5)')).toEqual({ hex: '#000000', alpha: 0.5 });
+  });
+
+  it('matches token names before literal values', () => {
+    const match = matchColor({ token: 'color.brand.primary' }, '#ff0000', undefined, catalog);
+    expect(match).toEqual({ id: 'v1', name: 'color/brand/primary', via: 'VARIABLE' });
+  });
+
+  it('matches literal colours against variables and paint styles', () => {
+    expect(matchColor('#FFFFFF', '#FFFFFF', undefined, catalog)?.id).toBe('v2');
+    expect(matchColor('#2e6afe', '#2e6afe', undefined, catalog)?.via).toBe('PAINT_STYLE');
+    expect(matchColor('#000000', '#000000', 0.5, catalog)?.id).toBe('s2');
+    expect(matchColor('#000000', '#000000', undefined, catalog)).toBeUndefined();
+  });
+
+  it('honours explicit mappings', () => {
+    const mapping = { colors: { '#123456': 'Brand/Hover' }, textStyles: { 'text.label': 'Label/Medium' } };
+    expect(matchColor('#123456', '#123456', undefined, catalog, mapping)?.id).toBe('s1');
+    expect(matchTextStyle({ token: 'text.label' }, undefined, catalog, mapping)?.id).toBe('t1');
+  });
+
+  it('matches literal text styles by value', () => {
+    const label = { fontFamily: 'Inter', fontSize: 14, fontWeight: 600 };
+    const caption = { fontFamily: 'Inter', fontSize: 12 };
+    expect(matchTextStyle(label, label, catalog)?.id).toBe('t1');
+    expect(matchTextStyle(caption, caption, catalog)).toBeUndefined();
+  });
+
+  it('records each value once in the report', () => {
+    const report = createStyleBindingReport();
+    recordStyleBinding(report, { kind: 'fill', value: '#ffffff', target: 'color/neutral/white', via: 'VARIABLE' });
+    recordStyleBinding(report, { kind: 'fill', value: '#ffffff', target: 'color/neutral/white', via: 'VARIABLE' });
+    recordStyleBinding(report, { kind: 'fill', value: '#abcdef' });
+    expect(report.bound).toHaveLength(1);
+    expect(report.literals).toHaveLength(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { computeCombinationStyles, generateVariantStylesheet } from '../src/utils/stylesheet';
+
+describe('variant stylesheet export', () => {
+  const spec = createSpecFromTemplate('button');
+
+  it('merges the base style and every matching state', () => {
+    const styles = computeCombinationStyles(spec, { state: 'disabled', size: 'lg' });
+    const root = styles.get(spec.structure)!;
+    expect(root.background).toBe('#a6b7ff');
+    expect(root.padding).toBe('10px 20px 10px 20px');
+    expect(root['font-size']).toBe('16px');
+    expect(root['border-radius']).toBe('8px');
+    const label = styles.get(spec.structure.children![1])!;
+    expect(label.color).toBe('rgba(255, 255, 255, 0.7)');
+  });
+
+  it('merges element size overrides into the element size', () => {
+    const sized = createSpecFromTemplate('button');
+    const icon = sized.structure.children![0];
+    icon.size = { ...icon.size, minHeight: 12 };
+    sized.states.find((state) => state.name === 'size-lg')!.style.elements = { [icon.id]: { layout: { size: { width: 20 } } } };
+    const styles = computeCombinationStyles(sized, { state: 'default', size: 'lg' }).get(icon)!;
+    expect(styles.width).toBe('20px');
+    expect(styles.height).toBe('16px');
+    expect(styles['min-height']).toBe('12px');
+  });
+
+  it('hides elements in variants their visibleWhen excludes', () => {
+    const dropdown = createSpecFromTemplate('dropdown');
+    const list = dropdown.structure.children![1];
+    expect(computeCombinationStyles(dropdown, { state: 'open', size: 'sm' }).get(list)!.display).toBe('flex');
+    expect(computeCombinationStyles(dropdown, { state: 'default', size: 'sm' }).get(list)!.display).toBe('none');
+  });
+
+  it('emits one rule per combination and custom properties for varying values', () => {
+    const css = generateVariantStylesheet(spec);
+    const rules = css.match(/^\.cf-button\[data-state="[a-z]+"\]\[data-size="[a-z]+"\] \{$/gm) ?? [];
+    expect(rules).toHaveLength(12);
+    const hover = css.slice(css.indexOf('.cf-button[data-state="hover"][data-size="md"] {'));
+    expect(hover.slice(0, hover.indexOf('}'))).toContain('--cf-button-background: #2e6afe;');
+    expect(css).toContain('  background: var(--cf-button-background);');
+    expect(css).toContain('  border-radius: 8px;');
+    expect(css).toContain('  --cf-button-button-label-color: rgba(255, 255, 255, 0.7);');
+  });
+
+  it('leaves out excluded combinations', () => {
+    const css = generateVariantStylesheet({ ...spec, excludedCombinations: [{ state: 'disabled', size: { not: 'md' } }] });
+    expect(css.match(/^\.cf-button\[data-state="[a-z]+"\]\[data-size="[a-z]+"\] \{$/gm)).toHaveLength(10);
+    expect(css).not.toContain('.cf-button[data-state="disabled"][data-size="sm"] {');
+    expect(css).toContain('.cf-button[data-state="disabled"][data-size="md"] {');
+  });
+});
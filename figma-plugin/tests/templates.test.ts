@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate, templates } from '../src/templates';
+import { generateVariantCombinations, validateSpec, variantMatchesSelector } from '../src/utils/spec';
+
+describe('templates', () => {
+  it('ships a valid spec for every template', () => {
+    templates.forEach((template) => {
+      expect(validateSpec(createSpecFromTemplate(template.id)).errors).toEqual([]);
+    });
+  });
+
+  it('creates the badge template', () => {
+    const spec = createSpecFromTemplate('badge');
+    const result = validateSpec(spec);
+    expect(result.ok).toBe(true);
+    expect(spec.variantGroups.map((group) => group.name)).toEqual(['tone', 'size', 'appearance']);
+    expect(generateVariantCombinations(spec.variantGroups)).toHaveLength(4 * 2 * 3);
+  });
+
+  it('styles every badge combination with exactly one appearance state', () => {
+    const spec = createSpecFromTemplate('badge');
+    generateVariantCombinations(spec.variantGroups).forEach((combination) => {
+      const appearanceStates = spec.states.filter(
+        (state) => state.appliesTo?.appearance && variantMatchesSelector(combination, state.appliesTo),
+      );
+      expect(appearanceStates).toHaveLength(1);
+    });
+  });
+});
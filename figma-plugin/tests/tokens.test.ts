@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createSpecFromTemplate } from '../src/templates';
+import { validateSpec } from '../src/utils/spec';
+import {
+  formatColorValue,
+  parseColorValue,
+  renameToken,
+  resolveColor,
+  resolveTextStyle,
+} from '../src/utils/tokens';
+
+describe('design tokens', () => {
+  const tokens = {
+    colors: { 'color.brand.primary': '#1f5af6' },
+    textStyles: { 'text.label': { fontFamily: 'Inter', fontSize: 14, fontWeight: 600 } },
+  };
+
+  it('resolves colour and text style references', () => {
+    expect(resolveColor('#ffffff', tokens)).toBe('#ffffff');
+    expect(resolveColor({ token: 'color.brand.primary' }, tokens)).toBe('#1f5af6');
+    expect(resolveColor({ token: 'color.missing' }, tokens)).toBeUndefined();
+    expect(resolveTextStyle({ token: 'text.label' }, tokens)?.fontSize).toBe(14);
+  });
+
+  it('round-trips token references through text inputs', () => {
+    expect(parseColorValue('{color.brand.primary}')).toEqual({ token: 'color.brand.primary' });
+    expect(parseColorValue(' #fff ')).toBe('#fff');
+    expect(formatColorValue({ token: 'color.brand.primary' })).toBe('{color.brand.primary}');
+  });
+
+  it('reports unresolved tokens during validation', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.styleTokens = tokens;
+    spec.states[0].style.fills = [{ type: 'SOLID', color: { token: 'color.brand.primary' } }];
+    expect(validateSpec(spec).ok).toBe(true);
+
+    spec.states[1].style.fills = [{ type: 'SOLID', color: { token: 'color.brand.hover' } }];
+    spec.states[1].style.textStyle = { token: 'text.missing' };
+    const result = validateSpec(spec);
+    expect(result.ok).toBe(false);
+    expect(result.errors.filter((issue) => issue.code === 'style.token.unresolved')).toHaveLength(2);
+  });
+
+  it('renames tokens together with their references', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.styleTokens = { colors: { ...tokens.colors } };
+    spec.structure.fills = [{ type: 'SOLID', color: { token: 'color.brand.primary' } }];
+    renameToken(spec, 'colors', 'color.brand.primary', 'color.brand.main');
+    expect(spec.styleTokens.colors).toEqual({ 'color.brand.main': '#1f5af6' });
+    expect(spec.structure.fills[0]).toMatchObject({ color: { token: 'color.brand.main' } });
+  });
+
+  it('refuses to rename a token onto an existing name', () => {
+    const spec = createSpecFromTemplate('button');
+    spec.styleTokens = { colors: { 'color.brand.primary': '#1f5af6', 'color.text': '#ffffff' } };
+    spec.structure.fills = [{ type: 'SOLID', color: { token: 'color.brand.primary' } }];
+    expect(renameToken(spec, 'colors', 'color.brand.primary', 'color.text')).toBe(false);
+    expect(spec.styleTokens.colors).toEqual({ 'color.brand.primary': '#1f5af6', 'color.text': '#ffffff' });
+    expect(spec.structure.fills[0]).toMatchObject({ color: { token: 'color.brand.primary' } });
+  });
+});